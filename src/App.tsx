@@ -1,155 +1,197 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { Toaster } from '@/components/ui/toaster'
+import { ToastAction } from '@/components/ui/toast'
 import { blink } from '@/blink/client'
+import { syncProfileFromAuth } from '@/blink/profiles'
+import { acceptInvitation, INVITE_QUERY_PARAM } from '@/blink/invitations'
+import type { User } from '@/blink/types'
+import { primeProfile } from '@/hooks/use-profiles'
+import { useToast } from '@/hooks/use-toast'
+import { usePresenceTracking } from '@/hooks/use-presence'
+import { useWorkspaces, useWorkspaceChannels, refreshWorkspaceChannels, clearWorkspaceStore } from '@/hooks/use-workspace-store'
+import { setDraftsUser } from '@/hooks/use-drafts'
+import type { Draft } from '@/hooks/use-drafts'
+import { setOutboxUser } from '@/hooks/use-outbox'
+import { useReminders, setRemindersUser } from '@/hooks/use-reminders'
+import { parseChatPath, workspacePath, channelPath, messagePath, draftsPath } from '@/lib/routes'
 import { Sidebar } from '@/components/layout/Sidebar'
 import { ChatArea } from '@/components/chat/ChatArea'
+import { DraftsView } from '@/components/chat/DraftsView'
 import { AIAssistant } from '@/components/ai/AIAssistant'
 import { LoadingScreen } from '@/components/ui/LoadingScreen'
 
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
-
-interface Group {
-  id: string
-  name: string
-  description?: string
-  createdBy: string
-  createdAt: string
-}
-
-interface Channel {
-  id: string
-  groupId: string
-  name: string
-  description?: string
-  isPrivate: boolean
-  createdBy: string
-  createdAt: string
-}
-
 function App() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
-  const [groups, setGroups] = useState<Group[]>([])
-  const [channels, setChannels] = useState<Channel[]>([])
-  const [activeGroup, setActiveGroup] = useState<string | null>(null)
-  const [activeChannel, setActiveChannel] = useState<string | null>(null)
   const [isAIOpen, setIsAIOpen] = useState(false)
+  const syncedUserIdRef = useRef<string | null>(null)
+  // Invite link token, held until the user has signed in and accepted it
+  const [inviteToken, setInviteToken] = useState(() =>
+    new URLSearchParams(window.location.search).get(INVITE_QUERY_PARAM)
+  )
+  const { toast } = useToast()
+  const acceptingInviteRef = useRef<string | null>(null)
+  const location = useLocation()
+  const navigate = useNavigate()
+  // The URL is the source of truth for what's open, so reloads, shared links
+  // and back/forward all land in the same place
+  const {
+    groupId: activeGroup,
+    channelId: activeChannel,
+    messageId: focusMessageId,
+    view
+  } = parseChatPath(location.pathname)
+  usePresenceTracking(activeGroup, user?.id)
+
+  // Workspaces wait until a pending invite is accepted, so new users join the
+  // invited workspace instead of getting a default one
+  const { groups, roles: workspaceRoles } = useWorkspaces(inviteToken ? null : user?.id)
+  const {
+    channels,
+    allChannelIds,
+    joinedChannelIds,
+    dmMembers,
+    isLoaded: channelsLoaded
+  } = useWorkspaceChannels(activeGroup, user?.id)
+  const refreshedForChannelRef = useRef<string | null>(null)
+
+  // Reminders set with /remind link back to where they were set
+  useReminders((reminder) => {
+    const path = reminder.threadId
+      ? messagePath(reminder.groupId, reminder.channelId, reminder.threadId)
+      : channelPath(reminder.groupId, reminder.channelId)
+
+    toast({
+      title: 'Reminder',
+      description: reminder.text,
+      action: (
+        <ToastAction altText="Open conversation" onClick={() => navigate(path)}>
+          Open
+        </ToastAction>
+      )
+    })
+  })
 
-  // Auth state management
+  // Auth state management. Workspaces and channels cached for one account are
+  // dropped before the next one renders, and only the signed-in user's drafts,
+  // unsent messages and reminders are loaded.
   useEffect(() => {
+    let signedInUserId: string | null = null
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      const userId = state.user?.id ?? null
+      if (userId !== signedInUserId) {
+        signedInUserId = userId
+        clearWorkspaceStore()
+        setDraftsUser(userId)
+        setOutboxUser(userId)
+        setRemindersUser(userId)
+      }
       setUser(state.user)
       setLoading(state.isLoading)
     })
     return unsubscribe
   }, [])
 
-  // Load user's groups when authenticated
+  // Keep the user directory in sync with the auth profile on sign-in. Auth
+  // state updates for the same user don't sync again.
   useEffect(() => {
-    if (!user?.id) return
-
-    const loadGroups = async () => {
-      try {
-        // Get groups where user is a member
-        const userGroups = await blink.db.groupMembers.list({
-          where: { userId: user.id },
-          orderBy: { joinedAt: 'desc' }
-        })
+    if (!user || syncedUserIdRef.current === user.id) return
+    syncedUserIdRef.current = user.id
 
-        if (userGroups.length > 0) {
-          const groupIds = userGroups.map(gm => gm.groupId)
-          
-          // Fetch groups individually to avoid OR syntax issues
-          const groupsData = []
-          for (const groupId of groupIds) {
-            try {
-              const group = await blink.db.groups.list({
-                where: { id: groupId },
-                limit: 1
-              })
-              if (group.length > 0) {
-                groupsData.push(group[0])
-              }
-            } catch (error) {
-              console.warn(`Failed to fetch group ${groupId}:`, error)
-            }
-          }
-          
-          // Sort by creation date
-          groupsData.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-          setGroups(groupsData)
-          
-          // Set first group as active if none selected
-          if (!activeGroup && groupsData.length > 0) {
-            setActiveGroup(groupsData[0].id)
-          }
-        } else {
-          // Create a default group for new users
-          const defaultGroup = await blink.db.groups.create({
-            id: `group_${Date.now()}`,
-            name: 'General',
-            description: 'Default workspace',
-            createdBy: user.id
-          })
-
-          // Add user as member
-          await blink.db.groupMembers.create({
-            id: `member_${Date.now()}`,
-            groupId: defaultGroup.id,
-            userId: user.id,
-            role: 'admin'
-          })
-
-          // Create default channel
-          const defaultChannel = await blink.db.channels.create({
-            id: `channel_${Date.now()}`,
-            groupId: defaultGroup.id,
-            name: 'general',
-            description: 'General discussion',
-            isPrivate: false,
-            createdBy: user.id
-          })
-
-          setGroups([defaultGroup])
-          setChannels([defaultChannel])
-          setActiveGroup(defaultGroup.id)
-          setActiveChannel(defaultChannel.id)
-        }
-      } catch (error) {
-        console.error('Error loading groups:', error)
-      }
-    }
+    syncProfileFromAuth(user)
+      .then(primeProfile)
+      .catch((error) => console.error('Error syncing user profile:', error))
+  }, [user])
+
+  // The invite token is held in state, so take it out of the address bar
+  useEffect(() => {
+    const params = new URLSearchParams(location.search)
+    if (!params.has(INVITE_QUERY_PARAM)) return
 
-    loadGroups()
-  }, [user?.id, activeGroup])
+    params.delete(INVITE_QUERY_PARAM)
+    navigate({ pathname: location.pathname, search: params.toString() }, { replace: true })
+  }, [location.pathname, location.search, navigate])
 
-  // Load channels for active group
+  // Accept an invite link before loading workspaces. Auth state updates while
+  // it's being accepted don't accept it again.
   useEffect(() => {
-    if (!activeGroup) return
+    if (!user || !inviteToken || acceptingInviteRef.current === inviteToken) return
+    acceptingInviteRef.current = inviteToken
 
-    const loadChannels = async () => {
-      try {
-        const channelsData = await blink.db.channels.list({
-          where: { groupId: activeGroup },
-          orderBy: { createdAt: 'asc' }
+    acceptInvitation(inviteToken, user)
+      .then((groupId) => {
+        navigate(workspacePath(groupId), { replace: true })
+        toast({
+          title: 'Invitation accepted',
+          description: 'Welcome to the workspace!'
         })
-        setChannels(channelsData)
-        
-        // Set first channel as active if none selected
-        if (!activeChannel && channelsData.length > 0) {
-          setActiveChannel(channelsData[0].id)
-        }
-      } catch (error) {
-        console.error('Error loading channels:', error)
-      }
+      })
+      .catch((error) => {
+        console.error('Error accepting invitation:', error)
+        toast({
+          title: 'Could not join workspace',
+          description: error instanceof Error ? error.message : 'Failed to accept the invitation.',
+          variant: 'destructive'
+        })
+      })
+      .finally(() => setInviteToken(null))
+  }, [user, inviteToken, navigate, toast])
+
+  // Fall back to the first workspace when the URL names none, or one the user isn't in
+  useEffect(() => {
+    if (groups.length > 0 && !groups.some(group => group.id === activeGroup)) {
+      navigate(workspacePath(groups[0].id), { replace: true })
+    }
+  }, [groups, activeGroup, navigate])
+
+  // Open the first joined channel when the URL names none, or one from another
+  // workspace. Private channels the user can't see still open, to show that
+  // they're locked. A channel created since the list was loaded gets one
+  // refresh before giving up on it.
+  useEffect(() => {
+    if (!activeGroup || !channelsLoaded || view) return
+    if (activeChannel && allChannelIds.includes(activeChannel)) return
+
+    if (activeChannel && refreshedForChannelRef.current !== activeChannel) {
+      refreshedForChannelRef.current = activeChannel
+      refreshWorkspaceChannels(activeGroup)
+      return
     }
 
-    loadChannels()
-  }, [activeGroup, activeChannel])
+    const joinedIds = new Set(joinedChannelIds)
+    const firstChannel = channels.find(c => !Number(c.isDirect) && !Number(c.isArchived) && joinedIds.has(c.id))
+    if (firstChannel) {
+      navigate(channelPath(activeGroup, firstChannel.id), { replace: true })
+    }
+  }, [activeGroup, activeChannel, view, channels, allChannelIds, joinedChannelIds, channelsLoaded, navigate])
+
+  // Reload the sidebar after joining, leaving or being added to channels
+  const handleMembershipChange = () => {
+    if (activeGroup) refreshWorkspaceChannels(activeGroup)
+  }
+
+  const handleGroupSelect = (groupId: string) => {
+    navigate(workspacePath(groupId))
+  }
+
+  const handleChannelSelect = (channelId: string) => {
+    if (activeGroup) navigate(channelPath(activeGroup, channelId))
+  }
+
+  // Open a channel scrolled to a specific message
+  const handleJumpToMessage = (channelId: string, messageId: string) => {
+    if (activeGroup) navigate(messagePath(activeGroup, channelId, messageId))
+  }
+
+  // Drafts can be in any workspace; thread drafts reopen their thread
+  const handleOpenDraft = (draft: Draft) => {
+    navigate(draft.threadId
+      ? messagePath(draft.groupId, draft.channelId, draft.threadId)
+      : channelPath(draft.groupId, draft.channelId))
+  }
+
+  const activeRole = activeGroup ? workspaceRoles[activeGroup] : undefined
 
   if (loading) {
     return <LoadingScreen />
@@ -178,21 +220,36 @@ function App() {
       <Sidebar
         groups={groups}
         channels={channels}
+        dmMembers={dmMembers}
+        joinedChannelIds={joinedChannelIds}
         activeGroup={activeGroup}
         activeChannel={activeChannel}
-        onGroupSelect={setActiveGroup}
-        onChannelSelect={setActiveChannel}
+        role={activeRole}
+        onGroupSelect={handleGroupSelect}
+        onChannelSelect={handleChannelSelect}
+        onMembershipChange={handleMembershipChange}
         user={user}
         onAIToggle={() => setIsAIOpen(!isAIOpen)}
+        isDraftsOpen={view === 'drafts'}
+        onDraftsOpen={() => activeGroup && navigate(draftsPath(activeGroup))}
       />
 
       {/* Main Chat Area */}
       <div className="flex-1 flex">
-        <ChatArea
-          activeChannel={activeChannel}
-          user={user}
-          isAIOpen={isAIOpen}
-        />
+        {view === 'drafts' ? (
+          <DraftsView groups={groups} onOpenDraft={handleOpenDraft} />
+        ) : (
+          <ChatArea
+            activeChannel={activeChannel}
+            channels={channels}
+            focusMessageId={focusMessageId}
+            role={activeRole}
+            user={user}
+            isAIOpen={isAIOpen}
+            onJumpToMessage={handleJumpToMessage}
+            onMembershipChange={handleMembershipChange}
+          />
+        )}
         
         {/* AI Assistant Panel */}
         {isAIOpen && (
@@ -0,0 +1,17 @@
+import { blink } from '@/blink/client'
+
+// Long enough for a chat reply or a drafted message
+const MAX_TOKENS = 500
+
+const APP_CONTEXT = 'You are an assistant in a team chat app. Messages support markdown.'
+
+// Ask the model to do `task` for what the person typed. The prompt is built
+// from trimmed parts, so the request and instructions carry no stray
+// indentation or blank lines.
+export async function generateAIText(task: string, request: string): Promise<string> {
+  const response = await blink.ai.generateText({
+    prompt: [APP_CONTEXT, task.trim(), `Request: ${request.trim()}`].join('\n\n'),
+    maxTokens: MAX_TOKENS
+  })
+  return response.text.trim()
+}
@@ -0,0 +1,35 @@
+import { db } from '@/blink/db'
+import type { ChannelMember } from '@/blink/types'
+
+export async function listChannelMembers(channelId: string): Promise<ChannelMember[]> {
+  return db.channelMembers.list({
+    where: { channelId },
+    orderBy: { createdAt: 'asc' }
+  })
+}
+
+export async function listMembershipsForUser(userId: string): Promise<ChannelMember[]> {
+  return db.channelMembers.list({
+    where: { userId }
+  })
+}
+
+// Adds everyone who isn't already a member; safe to call with existing members
+export async function addChannelMembers(channelId: string, userIds: string[]): Promise<ChannelMember[]> {
+  if (userIds.length === 0) return []
+
+  const existing = await db.channelMembers.list({
+    where: { channelId, userId: { in: userIds } }
+  })
+  const existingIds = new Set(existing.map(member => member.userId))
+  const newIds = Array.from(new Set(userIds)).filter(userId => !existingIds.has(userId))
+  if (newIds.length === 0) return []
+
+  return db.channelMembers.createMany(newIds.map(userId => ({ channelId, userId })))
+}
+
+export async function removeChannelMember(channelId: string, userId: string): Promise<void> {
+  await db.channelMembers.deleteMany({
+    where: { channelId, userId }
+  })
+}
@@ -0,0 +1,292 @@
+import { blink } from '@/blink/client'
+import { escapeRegExp } from '@/lib/utils'
+import type {
+  Channel,
+  ChannelMember,
+  Group,
+  Message,
+  MessageRevision,
+  PinnedMessage,
+  Reaction,
+  ReadCursor,
+  UserProfile,
+  WorkspaceInvitation,
+  WorkspaceMember
+} from '@/blink/types'
+
+type Row = Record<string, unknown>
+
+// Blink filter syntax: `{ field: value }` for equality, or an operator object
+// such as `{ field: { in: [...] } }`. The SDK sends one filter per field, so
+// an operator object holds a single operator; the memory backend rejects more.
+export type Where = Record<string, unknown>
+
+export interface ListOptions {
+  where?: Where
+  orderBy?: Record<string, 'asc' | 'desc'>
+  limit?: number
+  offset?: number
+}
+
+// Rows are created without an id unless the caller needs a deterministic one
+export type NewRow<T> = Partial<T>
+
+export interface Table<T> {
+  list: (options?: ListOptions) => Promise<T[]>
+  get: (id: string) => Promise<T | null>
+  create: (data: NewRow<T>) => Promise<T>
+  createMany: (data: NewRow<T>[]) => Promise<T[]>
+  upsert: (data: Partial<T> & { id: string }) => Promise<T>
+  update: (id: string, data: Partial<T>) => Promise<T>
+  delete: (id: string) => Promise<void>
+  deleteMany: (options: { where: Where }) => Promise<void>
+  count: (options?: { where?: Where }) => Promise<number>
+}
+
+// Where rows are actually stored. The repository below adds types, ids and
+// error handling on top, so a backend only has to move untyped rows around.
+export interface DataBackend {
+  table: (name: string) => Table<Row>
+}
+
+// Thrown by every repository operation, so callers can log one kind of error
+// and show their own message
+export class DataError extends Error {
+  table: string
+  operation: string
+  cause: unknown
+
+  constructor(table: string, operation: string, cause: unknown) {
+    super(`Failed to ${operation} ${table}: ${cause instanceof Error ? cause.message : String(cause)}`)
+    this.name = 'DataError'
+    this.table = table
+    this.operation = operation
+    this.cause = cause
+  }
+}
+
+// Match user input literally inside a `like`/`ilike` pattern
+export const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, '\\$&')
+
+export const createId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+
+function createBlinkBackend(): DataBackend {
+  return {
+    table: (name) => blink.db.table<Row>(name)
+  }
+}
+
+// SQLite has no booleans; store flags the way the real database returns them
+const toStoredValue = (value: unknown) => typeof value === 'boolean' ? Number(value) : value
+
+// `%` and `_` are wildcards unless escaped with a backslash, as in Postgres
+const likeToRegExp = (pattern: string, flags: string) => new RegExp(
+  `^${pattern.replace(/\\(.)|([%_])|(.)/gs, (_, escaped?: string, wildcard?: string, literal?: string) =>
+    wildcard ? (wildcard === '%' ? '.*' : '.') : escapeRegExp(escaped ?? literal ?? ''))}$`,
+  flags
+)
+
+// Range operators compare like SQLite does for the strings and numbers stored here
+const compare = (value: unknown, operand: unknown): number | null => {
+  if (value == null || operand == null) return null
+  const left = value as string | number
+  const right = operand as string | number
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+const isOneOf = (value: unknown, operand: unknown) =>
+  (operand as unknown[]).map(toStoredValue).includes(value)
+
+const matchesLike = (value: unknown, operand: unknown, flags: string) =>
+  value != null && likeToRegExp(String(operand), flags).test(String(value))
+
+const isOperatorObject = (condition: unknown): condition is Record<string, unknown> =>
+  condition !== null && typeof condition === 'object' && !Array.isArray(condition)
+
+const matchesOperator = (value: unknown, operator: string, operand: unknown): boolean => {
+  const order = compare(value, operand)
+  switch (operator) {
+    case 'eq': return value == toStoredValue(operand)
+    case 'neq': return value != toStoredValue(operand)
+    case 'gt': return order !== null && order > 0
+    case 'gte': return order !== null && order >= 0
+    case 'lt': return order !== null && order < 0
+    case 'lte': return order !== null && order <= 0
+    case 'in': return isOneOf(value, operand)
+    case 'not_in': return !isOneOf(value, operand)
+    case 'like': return matchesLike(value, operand, '')
+    case 'ilike': return matchesLike(value, operand, 'i')
+    case 'is': return operand === null ? value == null : value == toStoredValue(operand)
+    case 'not': return !matchesCondition(value, operand)
+    default: throw new Error(`Unsupported filter operator "${operator}"`)
+  }
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!isOperatorObject(condition)) return value == toStoredValue(condition)
+  const [[operator, operand]] = Object.entries(condition)
+  return matchesOperator(value, operator, operand)
+}
+
+// The Blink SDK keeps one filter per field and drops the rest, so a query
+// relying on more would return other rows there than here
+const checkWhere = (where: Where = {}) => {
+  for (const [key, condition] of Object.entries(where)) {
+    if (key === 'AND' || key === 'OR') {
+      (condition as Where[]).forEach(checkWhere)
+    } else if (isOperatorObject(condition) && Object.keys(condition).length !== 1) {
+      throw new Error(`Filter on "${key}" needs exactly one operator`)
+    }
+  }
+}
+
+const matchesWhere = (row: Row, where: Where = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return (condition as Where[]).every(part => matchesWhere(row, part))
+    if (key === 'OR') return (condition as Where[]).some(part => matchesWhere(row, part))
+    return matchesCondition(row[key], condition)
+  })
+
+const compareRows = (orderBy: Record<string, 'asc' | 'desc'>) => (a: Row, b: Row) => {
+  for (const [key, direction] of Object.entries(orderBy)) {
+    const left = a[key] ?? null
+    const right = b[key] ?? null
+    if (left === right) continue
+    // Nulls sort first, as in SQLite
+    const order = left === null ? -1 : right === null ? 1 : left < right ? -1 : 1
+    return direction === 'desc' ? -order : order
+  }
+  return 0
+}
+
+type StoredRow = Row & { id: string }
+
+// Keeps every table in memory for offline development and tests. Nothing is
+// persisted, and columns the real schema defaults (createdAt, updatedAt) are
+// filled in on write.
+export function createMemoryBackend(seed: Record<string, Row[]> = {}): DataBackend {
+  const tables = new Map<string, Map<string, StoredRow>>()
+
+  const filterRows = (rows: Map<string, StoredRow>, where?: Where) => {
+    checkWhere(where)
+    return Array.from(rows.values()).filter(row => matchesWhere(row, where))
+  }
+
+  const getRows = (name: string) => {
+    let rows = tables.get(name)
+    if (!rows) {
+      rows = new Map()
+      tables.set(name, rows)
+    }
+    return rows
+  }
+
+  // Undefined fields are left out, as they are when sent to the real database
+  const normalize = (data: Row) => Object.fromEntries(Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, toStoredValue(value)]))
+
+  const insert = (rows: Map<string, StoredRow>, data: Row) => {
+    const id = data.id
+    if (typeof id !== 'string' || !id) throw new Error('Rows need an id')
+    if (rows.has(id)) throw new Error(`Duplicate id "${id}"`)
+    const now = new Date().toISOString()
+    const row: StoredRow = { createdAt: now, updatedAt: now, ...normalize(data), id }
+    rows.set(id, row)
+    return { ...row }
+  }
+
+  for (const [name, rows] of Object.entries(seed)) {
+    rows.forEach(row => insert(getRows(name), row))
+  }
+
+  return {
+    table: (name) => {
+      const rows = getRows(name)
+
+      const update = async (id: string, data: Row) => {
+        const existing = rows.get(id)
+        if (!existing) throw new Error(`No row with id "${id}"`)
+        const row = { ...existing, updatedAt: new Date().toISOString(), ...normalize(data), id }
+        rows.set(id, row)
+        return { ...row }
+      }
+
+      return {
+        list: async ({ where, orderBy, limit, offset = 0 } = {}) => {
+          let result = filterRows(rows, where)
+          if (orderBy) result.sort(compareRows(orderBy))
+          result = result.slice(offset, limit === undefined ? undefined : offset + limit)
+          return result.map(row => ({ ...row }))
+        },
+        get: async (id) => {
+          const row = rows.get(id)
+          return row ? { ...row } : null
+        },
+        create: async (data) => insert(rows, data),
+        createMany: async (data) => data.map(row => insert(rows, row)),
+        upsert: async (data) => rows.has(data.id) ? update(data.id, data) : insert(rows, data),
+        update,
+        delete: async (id) => {
+          rows.delete(id)
+        },
+        deleteMany: async ({ where }) => {
+          filterRows(rows, where).forEach(row => rows.delete(row.id))
+        },
+        count: async ({ where } = {}) => filterRows(rows, where).length
+      }
+    }
+  }
+}
+
+let backend: DataBackend = import.meta.env.VITE_DATA_BACKEND === 'memory'
+  ? createMemoryBackend()
+  : createBlinkBackend()
+
+// Swap the storage behind every table, e.g. for an in-memory backend in tests
+export function setDataBackend(next: DataBackend) {
+  backend = next
+}
+
+// Rows come back from the backend untyped; each table's type describes them
+const run = async <R>(name: string, operation: string, action: (table: Table<Row>) => Promise<unknown>): Promise<R> => {
+  try {
+    return await action(backend.table(name)) as R
+  } catch (error) {
+    throw new DataError(name, operation, error)
+  }
+}
+
+// Resolve the backend per call so setDataBackend() applies to existing tables
+function defineTable<T>(name: string, idPrefix: string): Table<T> {
+  const withId = (data: object): Row => 'id' in data && data.id ? { ...data } : { ...data, id: createId(idPrefix) }
+
+  return {
+    list: (options) => run(name, 'list', table => table.list(options)),
+    get: (id) => run(name, 'get', table => table.get(id)),
+    create: (data) => run(name, 'create', table => table.create(withId(data))),
+    createMany: (data) => data.length === 0
+      ? Promise.resolve([])
+      : run(name, 'create', table => table.createMany(data.map(withId))),
+    upsert: (data) => run(name, 'upsert', table => table.upsert({ ...data })),
+    update: (id, data) => run(name, 'update', table => table.update(id, { ...data })),
+    delete: (id) => run(name, 'delete', table => table.delete(id)),
+    deleteMany: (options) => run(name, 'delete', table => table.deleteMany(options)),
+    count: (options) => run(name, 'count', table => table.count(options))
+  }
+}
+
+// The only way the app reads and writes data
+export const db = {
+  groups: defineTable<Group>('groups', 'group'),
+  groupMembers: defineTable<WorkspaceMember>('groupMembers', 'member'),
+  workspaceInvitations: defineTable<WorkspaceInvitation>('workspaceInvitations', 'invite'),
+  channels: defineTable<Channel>('channels', 'channel'),
+  channelMembers: defineTable<ChannelMember>('channelMembers', 'chmember'),
+  messages: defineTable<Message>('messages', 'msg'),
+  messageRevisions: defineTable<MessageRevision>('messageRevisions', 'rev'),
+  messageReactions: defineTable<Reaction>('messageReactions', 'reaction'),
+  pinnedMessages: defineTable<PinnedMessage>('pinnedMessages', 'pin'),
+  userProfiles: defineTable<UserProfile>('userProfiles', 'user'),
+  readCursors: defineTable<ReadCursor>('readCursors', 'read')
+}
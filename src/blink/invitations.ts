@@ -0,0 +1,120 @@
+import { blink } from '@/blink/client'
+import { db } from '@/blink/db'
+import { addWorkspaceMember } from '@/blink/workspace-members'
+import { joinDefaultChannel } from '@/blink/workspaces'
+import type { WorkspaceInvitation } from '@/blink/types'
+import { escapeHtml } from '@/lib/utils'
+
+interface NewInvitation {
+  groupId: string
+  invitedBy: string
+  role: string
+  email?: string
+  singleUse: boolean
+  expiresInDays: number | null
+}
+
+interface InvitingUser {
+  id: string
+  email: string
+}
+
+export const INVITE_QUERY_PARAM = 'invite'
+
+// Tokens end up in shareable links, so they come from the crypto RNG rather
+// than the guessable ids the repository gives rows
+const createInviteToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(18))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function getInvitationLink(invitation: WorkspaceInvitation): string {
+  return `${window.location.origin}/?${INVITE_QUERY_PARAM}=${invitation.token}`
+}
+
+export function isInvitationExpired(invitation: WorkspaceInvitation): boolean {
+  return !!invitation.expiresAt && new Date(invitation.expiresAt).getTime() <= Date.now()
+}
+
+export function isInvitationUsedUp(invitation: WorkspaceInvitation): boolean {
+  return Number(invitation.singleUse) > 0 && Number(invitation.useCount) > 0
+}
+
+export async function listInvitations(groupId: string): Promise<WorkspaceInvitation[]> {
+  return db.workspaceInvitations.list({
+    where: { groupId },
+    orderBy: { createdAt: 'desc' }
+  })
+}
+
+export async function createInvitation(invitation: NewInvitation): Promise<WorkspaceInvitation> {
+  const expiresAt = invitation.expiresInDays
+    ? new Date(Date.now() + invitation.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : undefined
+
+  return db.workspaceInvitations.create({
+    groupId: invitation.groupId,
+    token: createInviteToken(),
+    email: invitation.email?.trim().toLowerCase() || undefined,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy,
+    singleUse: invitation.singleUse ? 1 : 0,
+    useCount: 0,
+    expiresAt
+  })
+}
+
+export async function sendInvitationEmail(invitation: WorkspaceInvitation, workspaceName: string, inviterName: string): Promise<void> {
+  if (!invitation.email) return
+
+  const link = getInvitationLink(invitation)
+  await blink.notifications.email({
+    to: invitation.email,
+    subject: `${inviterName} invited you to ${workspaceName}`,
+    text: `${inviterName} invited you to join the ${workspaceName} workspace.\n\nAccept the invitation: ${link}`,
+    html: `<p>${escapeHtml(inviterName)} invited you to join the <strong>${escapeHtml(workspaceName)}</strong> workspace.</p><p><a href="${link}">Accept the invitation</a></p>`
+  })
+}
+
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  await db.workspaceInvitations.delete(invitationId)
+}
+
+// Join the invitation's workspace and return its id. Errors carry a message
+// that can be shown to the user as-is.
+export async function acceptInvitation(token: string, user: InvitingUser): Promise<string> {
+  const matches = await db.workspaceInvitations.list({
+    where: { token },
+    limit: 1
+  })
+  const invitation = matches[0]
+  if (!invitation) {
+    throw new Error('This invitation link is invalid or has been revoked.')
+  }
+
+  const existing = await db.groupMembers.list({
+    where: { groupId: invitation.groupId, userId: user.id },
+    limit: 1
+  })
+  if (existing.length > 0) return invitation.groupId
+
+  if (isInvitationExpired(invitation)) {
+    throw new Error('This invitation has expired. Ask for a new one.')
+  }
+  if (isInvitationUsedUp(invitation)) {
+    throw new Error('This invitation has already been used.')
+  }
+  if (invitation.email && invitation.email !== user.email.toLowerCase()) {
+    throw new Error(`This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`)
+  }
+
+  await addWorkspaceMember(invitation.groupId, user.id, invitation.role)
+  await joinDefaultChannel(invitation.groupId, user.id)
+  await db.workspaceInvitations.update(invitation.id, {
+    useCount: Number(invitation.useCount) + 1,
+    acceptedBy: user.id,
+    acceptedAt: new Date().toISOString()
+  })
+
+  return invitation.groupId
+}
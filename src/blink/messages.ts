@@ -0,0 +1,41 @@
+import { db } from '@/blink/db'
+import type { Message } from '@/blink/types'
+
+// Store a message composed on this client, keeping the id it was given there.
+// A retry after a lost response finds the row already saved instead of
+// failing on the duplicate id.
+export async function saveMessage(message: Message): Promise<Message> {
+  const { createdAt, updatedAt, ...data } = message
+
+  try {
+    return await db.messages.create(data)
+  } catch (error) {
+    const existing = await db.messages.get(message.id).catch(() => null)
+    if (existing) return existing
+    throw error
+  }
+}
+
+// Recount a thread's replies onto its parent and return the new count
+export async function updateReplyCount(parentId: string): Promise<number> {
+  const replyCount = await db.messages.count({
+    where: { threadId: parentId }
+  })
+  await db.messages.update(parentId, { replyCount })
+  return replyCount
+}
+
+// Delete a message along with its thread replies, and the pins, reactions
+// and edit history of each, so nothing is left pointing at a message that's gone
+export async function deleteMessage(messageId: string): Promise<void> {
+  const replies = await db.messages.list({ where: { threadId: messageId } })
+  const where = { messageId: { in: [messageId, ...replies.map(reply => reply.id)] } }
+
+  await Promise.all([
+    db.pinnedMessages.deleteMany({ where }),
+    db.messageReactions.deleteMany({ where }),
+    db.messageRevisions.deleteMany({ where })
+  ])
+  await db.messages.deleteMany({ where: { threadId: messageId } })
+  await db.messages.delete(messageId)
+}
@@ -0,0 +1,41 @@
+import { db } from '@/blink/db'
+import type { User, UserProfile } from '@/blink/types'
+
+// Create or refresh the signed-in user's profile from blink.auth. Fields the
+// user can edit themselves (name, title, timezone) are only seeded, never
+// overwritten.
+export async function syncProfileFromAuth(user: User): Promise<UserProfile> {
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const existing = await db.userProfiles.get(user.id)
+
+  if (!existing) {
+    return db.userProfiles.create({
+      id: user.id,
+      email: user.email,
+      displayName: user.displayName || user.email.split('@')[0],
+      avatarUrl: user.photoURL,
+      timezone
+    })
+  }
+
+  return db.userProfiles.update(user.id, {
+    email: user.email,
+    avatarUrl: user.photoURL || existing.avatarUrl,
+    timezone: existing.timezone || timezone,
+    updatedAt: new Date().toISOString()
+  })
+}
+
+export async function fetchProfiles(userIds: string[]): Promise<UserProfile[]> {
+  if (userIds.length === 0) return []
+  return db.userProfiles.list({
+    where: { id: { in: userIds } }
+  })
+}
+
+export async function updateProfile(userId: string, data: Partial<Omit<UserProfile, 'id'>>): Promise<UserProfile> {
+  return db.userProfiles.update(userId, {
+    ...data,
+    updatedAt: new Date().toISOString()
+  })
+}
@@ -0,0 +1,51 @@
+import { db } from '@/blink/db'
+import type { ReadCursor } from '@/blink/types'
+
+export interface UnreadCandidate {
+  id: string
+  channelId: string
+  userId: string
+  content: string
+  messageType: string
+  threadId?: string
+  createdAt: string
+}
+
+// Unread messages fetched per channel; badges show anything over 99 as "99+"
+const UNREAD_FETCH_LIMIT = 100
+
+// One cursor row per user and channel, so the id can be derived
+const cursorId = (userId: string, channelId: string) => `read_${userId}_${channelId}`
+
+export async function listReadCursors(userId: string, channelIds: string[]): Promise<ReadCursor[]> {
+  if (channelIds.length === 0) return []
+
+  return db.readCursors.list({
+    where: { userId, channelId: { in: channelIds } }
+  })
+}
+
+export async function saveReadCursor(userId: string, channelId: string, lastReadAt: string): Promise<void> {
+  await db.readCursors.upsert({
+    id: cursorId(userId, channelId),
+    userId,
+    channelId,
+    lastReadAt
+  })
+}
+
+// The channel's newest messages after its cursor that count as unread for the
+// user: top-level messages from other people, newest first
+export async function listUnreadCandidates(userId: string, channelId: string, since: string): Promise<UnreadCandidate[]> {
+  return db.messages.list({
+    where: {
+      channelId,
+      createdAt: { gt: since },
+      userId: { neq: userId },
+      threadId: { is: null },
+      messageType: { neq: 'system' }
+    },
+    orderBy: { createdAt: 'desc' },
+    limit: UNREAD_FETCH_LIMIT
+  })
+}
@@ -0,0 +1,97 @@
+import { blink } from '@/blink/client'
+import type { Channel, Message, PinnedMessage, Reaction } from '@/blink/types'
+
+export type ChannelEvent =
+  | { type: 'message.created'; message: Message }
+  // Only the changed fields, e.g. a parent's new replyCount
+  | { type: 'message.updated'; message: Partial<Message> & { id: string } }
+  | { type: 'message.deleted'; messageId: string }
+  | { type: 'reaction.added'; reaction: Reaction }
+  | { type: 'reaction.removed'; reactionId: string }
+  | { type: 'pin.added'; pin: PinnedMessage }
+  | { type: 'pin.removed'; pinId: string }
+  | { type: 'members.changed' }
+  | { type: 'channel.updated'; channel: Channel }
+  // Ephemeral events: never stored, only relevant to clients online right now
+  | { type: 'typing'; userId: string; threadId: string | null; isTyping: boolean }
+  | { type: 'presence.heartbeat'; userId: string; status: 'active' | 'away' }
+  | { type: 'presence.offline'; userId: string }
+  | { type: 'presence.sync'; userId: string }
+
+export interface RealtimeTransport {
+  publish: (topic: string, event: ChannelEvent) => Promise<void>
+  subscribe: (topic: string, handler: (event: ChannelEvent) => void) => () => void
+}
+
+// Blink realtime: delivers events to every client subscribed to the topic
+function createBlinkTransport(): RealtimeTransport {
+  return {
+    publish: async (topic, event) => {
+      await blink.realtime.publish(topic, event.type, event)
+    },
+    subscribe: (topic, handler) => {
+      let unsubscribe: (() => void) | null = null
+      let cancelled = false
+
+      blink.realtime
+        .subscribe(topic, (message) => handler(message.data as ChannelEvent))
+        .then((unsub) => {
+          if (cancelled) {
+            unsub()
+          } else {
+            unsubscribe = unsub
+          }
+        })
+        .catch((error) => console.error(`Failed to subscribe to ${topic}:`, error))
+
+      return () => {
+        cancelled = true
+        unsubscribe?.()
+      }
+    }
+  }
+}
+
+// Local stand-in for offline development: only reaches other tabs in this browser
+function createBroadcastTransport(): RealtimeTransport {
+  const channels = new Map<string, BroadcastChannel>()
+
+  const getChannel = (topic: string) => {
+    let channel = channels.get(topic)
+    if (!channel) {
+      channel = new BroadcastChannel(`realtime:${topic}`)
+      channels.set(topic, channel)
+    }
+    return channel
+  }
+
+  return {
+    publish: async (topic, event) => {
+      getChannel(topic).postMessage(event)
+    },
+    subscribe: (topic, handler) => {
+      const channel = new BroadcastChannel(`realtime:${topic}`)
+      channel.onmessage = (e) => handler(e.data as ChannelEvent)
+      return () => channel.close()
+    }
+  }
+}
+
+export const realtime: RealtimeTransport =
+  import.meta.env.VITE_REALTIME_TRANSPORT === 'local' && typeof BroadcastChannel !== 'undefined'
+    ? createBroadcastTransport()
+    : createBlinkTransport()
+
+export const channelTopic = (channelId: string) => `channel:${channelId}`
+
+export const typingTopic = (channelId: string) => `typing:${channelId}`
+
+export const presenceTopic = (groupId: string) => `presence:${groupId}`
+
+// Fire-and-forget publish: the database write already succeeded, so a missed
+// event only delays other clients until their next load
+export function publishChannelEvent(channelId: string, event: ChannelEvent) {
+  realtime.publish(channelTopic(channelId), event).catch((error) => {
+    console.error('Error publishing channel event:', error)
+  })
+}
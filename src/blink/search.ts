@@ -0,0 +1,118 @@
+import { db, escapeLikePattern } from '@/blink/db'
+import type { Where } from '@/blink/db'
+import type { Message } from '@/blink/types'
+import {
+  getSearchNeedles,
+  matchesSearchQuery,
+  scoreSearchResult
+} from '@/lib/search'
+import type { SearchQuery } from '@/lib/search'
+
+interface SearchChannel {
+  id: string
+  name: string
+}
+
+export interface SearchResult {
+  message: Message
+  score: number
+}
+
+// One batch of results, and where the next batch of older messages starts
+export interface SearchPage {
+  results: SearchResult[]
+  nextOffset: number | null
+}
+
+// Candidates are read newest first in pages of this size until a batch has
+// enough results, or enough messages have been scanned to come back with
+// what was found
+const SEARCH_FETCH_LIMIT = 200
+const SEARCH_RESULT_LIMIT = 50
+const SEARCH_SCAN_LIMIT = 1000
+
+// Match `from:` values against display names and emails
+async function resolveAuthorIds(names: string[], currentUserId: string): Promise<string[]> {
+  const ids = new Set<string>()
+
+  await Promise.all(names.map(async (name) => {
+    if (name.toLowerCase() === 'me') {
+      ids.add(currentUserId)
+      return
+    }
+
+    const [byName, byEmail] = await Promise.all([
+      db.userProfiles.list({ where: { displayName: { ilike: `%${escapeLikePattern(name)}%` } }, limit: 20 }),
+      db.userProfiles.list({ where: { email: { ilike: `${escapeLikePattern(name)}%` } }, limit: 20 })
+    ])
+    for (const profile of [...byName, ...byEmail]) {
+      ids.add(profile.id)
+    }
+  }))
+
+  return Array.from(ids)
+}
+
+// Search every channel the caller can see, starting `offset` messages back.
+// The database narrows candidates by channel, author, date, type and the
+// longest search term; the remaining terms and `has:link` are checked here
+// before ranking. Each batch is ranked on its own, so older batches follow.
+export async function searchMessages(
+  query: SearchQuery,
+  channels: SearchChannel[],
+  currentUserId: string,
+  offset = 0
+): Promise<SearchPage> {
+  const noResults: SearchPage = { results: [], nextOffset: null }
+  const scopedChannels = query.in.length > 0
+    ? channels.filter(channel => query.in.some(name => channel.name.toLowerCase() === name.toLowerCase()))
+    : channels
+  if (scopedChannels.length === 0) return noResults
+
+  const where: Where = {
+    channelId: { in: scopedChannels.map(channel => channel.id) }
+  }
+
+  if (query.from.length > 0) {
+    const authorIds = await resolveAuthorIds(query.from, currentUserId)
+    if (authorIds.length === 0) return noResults
+    where.userId = { in: authorIds }
+  }
+
+  // One operator per field; with both bounds, matchesSearchQuery applies the other
+  if (query.before) {
+    where.createdAt = { lt: query.before.toISOString() }
+  } else if (query.after) {
+    where.createdAt = { gte: query.after.toISOString() }
+  }
+
+  if (query.has.includes('file')) {
+    where.messageType = { in: ['image', 'file'] }
+  }
+
+  const [longestNeedle] = getSearchNeedles(query).sort((a, b) => b.length - a.length)
+  if (longestNeedle) {
+    where.content = { ilike: `%${escapeLikePattern(longestNeedle)}%` }
+  }
+
+  const matches: Message[] = []
+  let nextOffset: number | null = offset
+  while (nextOffset !== null && nextOffset - offset < SEARCH_SCAN_LIMIT && matches.length < SEARCH_RESULT_LIMIT) {
+    const candidates = await db.messages.list({
+      where,
+      orderBy: { createdAt: 'desc' },
+      limit: SEARCH_FETCH_LIMIT,
+      offset: nextOffset
+    })
+    matches.push(...candidates.filter(message => matchesSearchQuery(message, query)))
+    nextOffset = candidates.length < SEARCH_FETCH_LIMIT ? null : nextOffset + candidates.length
+  }
+
+  const now = Date.now()
+  return {
+    results: matches
+      .map(message => ({ message, score: scoreSearchResult(message, query, now) }))
+      .sort((a, b) => b.score - a.score),
+    nextOffset
+  }
+}
@@ -0,0 +1,139 @@
+// Domain types shared by the data layer and the UI. Rows come back from
+// SQLite, so flags arrive as 0/1 and should be read with Number(flag) > 0.
+export type DbFlag = boolean | number
+
+// The signed-in user as reported by blink.auth
+export interface User {
+  id: string
+  email: string
+  displayName?: string
+  photoURL?: string
+}
+
+export interface UserProfile {
+  id: string
+  email: string
+  displayName?: string
+  avatarUrl?: string
+  title?: string
+  timezone?: string
+  statusEmoji?: string
+  statusText?: string
+  statusExpiresAt?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export interface Group {
+  id: string
+  name: string
+  description?: string
+  createdBy: string
+  createdAt: string
+}
+
+export interface WorkspaceMember {
+  id: string
+  groupId: string
+  userId: string
+  role: string
+  joinedAt?: string
+}
+
+export interface WorkspaceInvitation {
+  id: string
+  groupId: string
+  token: string
+  email?: string
+  role: string
+  invitedBy: string
+  singleUse: DbFlag
+  useCount: number
+  expiresAt?: string
+  acceptedBy?: string
+  acceptedAt?: string
+  createdAt: string
+}
+
+export interface Channel {
+  id: string
+  groupId: string
+  name: string
+  description?: string
+  isPrivate: DbFlag
+  isDirect?: DbFlag
+  isArchived?: DbFlag
+  // Sorted member ids, so a conversation between the same people is found again
+  dmKey?: string
+  createdBy: string
+  createdAt: string
+}
+
+export interface ChannelMember {
+  id: string
+  channelId: string
+  userId: string
+  createdAt?: string
+}
+
+export interface Message {
+  id: string
+  channelId: string
+  userId: string
+  content: string
+  messageType: string
+  threadId?: string
+  replyCount: number
+  attachmentUrl?: string
+  attachmentName?: string
+  attachmentSize?: number
+  attachmentMimeType?: string
+  mentions?: string
+  systemEvent?: string
+  refMessageId?: string
+  editedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Attachment {
+  url: string
+  name: string
+  size: number
+  mimeType: string
+}
+
+export interface MessageRevision {
+  id: string
+  messageId: string
+  content: string
+  editedBy: string
+  createdAt: string
+}
+
+export interface Reaction {
+  id: string
+  messageId: string
+  channelId: string
+  userId: string
+  emoji: string
+  createdAt: string
+}
+
+export interface PinnedMessage {
+  id: string
+  channelId: string
+  messageId: string
+  pinnedBy: string
+  createdAt: string
+}
+
+// How far a user has read in a channel: every top-level message created
+// after `lastReadAt` is unread
+export interface ReadCursor {
+  id: string
+  userId: string
+  channelId: string
+  lastReadAt: string
+  updatedAt?: string
+}
@@ -0,0 +1,43 @@
+import { db } from '@/blink/db'
+import type { WorkspaceMember } from '@/blink/types'
+
+export async function listWorkspaceMembers(groupId: string): Promise<WorkspaceMember[]> {
+  return db.groupMembers.list({
+    where: { groupId }
+  })
+}
+
+// Returns the existing row when the user already belongs to the workspace
+export async function addWorkspaceMember(groupId: string, userId: string, role: string): Promise<WorkspaceMember> {
+  const existing = await db.groupMembers.list({
+    where: { groupId, userId },
+    limit: 1
+  })
+  if (existing.length > 0) return existing[0]
+
+  return db.groupMembers.create({
+    groupId,
+    userId,
+    role
+  })
+}
+
+export async function updateWorkspaceMemberRole(memberId: string, role: string): Promise<void> {
+  await db.groupMembers.update(memberId, { role })
+}
+
+// Removing someone from a workspace also drops them from its channels and DMs
+export async function removeWorkspaceMember(groupId: string, userId: string): Promise<void> {
+  const channels = await db.channels.list({
+    where: { groupId }
+  })
+  if (channels.length > 0) {
+    await db.channelMembers.deleteMany({
+      where: { userId, channelId: { in: channels.map(channel => channel.id) } }
+    })
+  }
+
+  await db.groupMembers.deleteMany({
+    where: { groupId, userId }
+  })
+}
@@ -0,0 +1,115 @@
+import { db } from '@/blink/db'
+import { addChannelMembers, listMembershipsForUser } from '@/blink/channel-members'
+import { updateWorkspaceMemberRole } from '@/blink/workspace-members'
+import type { Channel, ChannelMember, Group, WorkspaceMember } from '@/blink/types'
+import { canViewChannel } from '@/lib/channel-access'
+
+export interface UserWorkspaces {
+  groups: Group[]
+  memberships: WorkspaceMember[]
+}
+
+export interface WorkspaceChannels {
+  // Channels and DMs the user can see, oldest first
+  channels: Channel[]
+  // Every channel in the workspace, including private ones the user can't see
+  allChannelIds: string[]
+  joinedChannelIds: string[]
+  dmMembers: ChannelMember[]
+}
+
+// A workspace owned by its creator, with a #general channel they're in
+export async function createWorkspace(
+  userId: string,
+  details: { name: string; description?: string }
+): Promise<{ group: Group; membership: WorkspaceMember; generalChannel: Channel }> {
+  const group = await db.groups.create({
+    ...details,
+    createdBy: userId
+  })
+  const membership = await db.groupMembers.create({
+    groupId: group.id,
+    userId,
+    role: 'owner'
+  })
+  const generalChannel = await db.channels.create({
+    groupId: group.id,
+    name: 'general',
+    description: 'General discussion',
+    isPrivate: false,
+    createdBy: userId
+  })
+  await addChannelMembers(generalChannel.id, [userId])
+
+  return { group, membership, generalChannel }
+}
+
+// People joining a workspace start out in its #general channel
+export async function joinDefaultChannel(groupId: string, userId: string): Promise<void> {
+  const [defaultChannel] = await db.channels.list({
+    where: { groupId, name: 'general', isPrivate: false },
+    limit: 1
+  })
+  if (defaultChannel) await addChannelMembers(defaultChannel.id, [userId])
+}
+
+// New users start with a workspace of their own
+async function createDefaultWorkspace(userId: string): Promise<UserWorkspaces> {
+  const { group, membership } = await createWorkspace(userId, {
+    name: 'General',
+    description: 'Default workspace'
+  })
+  return { groups: [group], memberships: [membership] }
+}
+
+// The user's workspaces, newest first, in two queries however many there are
+export async function loadWorkspacesForUser(userId: string): Promise<UserWorkspaces> {
+  const memberships = await db.groupMembers.list({
+    where: { userId },
+    orderBy: { joinedAt: 'desc' }
+  })
+  if (memberships.length === 0) return createDefaultWorkspace(userId)
+
+  const groups = await db.groups.list({
+    where: { id: { in: memberships.map(membership => membership.groupId) } }
+  })
+
+  // Workspace creators from before the owner role become owners
+  for (const membership of memberships) {
+    const group = groups.find(g => g.id === membership.groupId)
+    if (membership.role === 'admin' && group?.createdBy === userId) {
+      await updateWorkspaceMemberRole(membership.id, 'owner')
+      membership.role = 'owner'
+    }
+  }
+
+  groups.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  return { groups, memberships }
+}
+
+export async function loadWorkspaceChannels(groupId: string, userId: string): Promise<WorkspaceChannels> {
+  const [channels, memberships] = await Promise.all([
+    db.channels.list({
+      where: { groupId },
+      orderBy: { createdAt: 'asc' }
+    }),
+    listMembershipsForUser(userId)
+  ])
+
+  // Private channels and direct messages are only listed for their members,
+  // which also keeps them out of search and the channel browser
+  const joinedIds = new Set(memberships.map(membership => membership.channelId))
+  const visibleChannels = channels.filter(channel => canViewChannel(channel, joinedIds))
+
+  const dmIds = visibleChannels.filter(c => Number(c.isDirect)).map(c => c.id)
+  const dmMembers = dmIds.length > 0
+    ? await db.channelMembers.list({ where: { channelId: { in: dmIds } } })
+    : []
+
+  return {
+    channels: visibleChannels,
+    allChannelIds: channels.map(channel => channel.id),
+    joinedChannelIds: Array.from(joinedIds),
+    dmMembers
+  }
+}
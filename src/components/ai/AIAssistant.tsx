@@ -16,14 +16,9 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Badge } from '@/components/ui/badge'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import rehypeHighlight from 'rehype-highlight'
-import { blink } from '@/blink/client'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
+import { generateAIText } from '@/blink/ai'
+import type { User } from '@/blink/types'
+import { safeRehypePlugins } from '@/lib/sanitize'
 
 interface AIMessage {
   id: string
@@ -96,24 +91,16 @@ export function AIAssistant({ onClose, user }: AIAssistantProps) {
     setIsLoading(true)
 
     try {
-      // Use Blink AI to generate response
-      const response = await blink.ai.generateText({
-        prompt: `You are a helpful AI assistant integrated into a Slack-like team collaboration platform. 
-        
-        User context:
-        - User: ${user.displayName || user.email}
-        - Platform: Team collaboration app with markdown support
-        
-        User message: ${input.trim()}
-        
-        Please provide a helpful, concise response. If the user is asking for help with writing, code, or content creation, provide specific actionable suggestions. Format your response using markdown when appropriate.`,
-        maxTokens: 500
-      })
+      const text = await generateAIText(
+        `The person asking is ${user.displayName || user.email}. Give a helpful, concise reply. ` +
+          'For help with writing, code or content, give specific, actionable suggestions. Use markdown where it helps.',
+        userMessage.content
+      )
 
       const assistantMessage: AIMessage = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: response.text,
+        content: text,
         timestamp: new Date()
       }
 
@@ -202,7 +189,7 @@ export function AIAssistant({ onClose, user }: AIAssistantProps) {
                   <div className="markdown-content text-sm">
                     <ReactMarkdown
                       remarkPlugins={[remarkGfm]}
-                      rehypePlugins={[rehypeHighlight]}
+                      rehypePlugins={safeRehypePlugins}
                       components={{
                         code: ({ node, inline, className, children, ...props }) => {
                           const match = /language-(\w+)/.exec(className || '')
@@ -0,0 +1,199 @@
+import { useState } from 'react'
+import { X, Users, UserPlus, LogOut, UserMinus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { ProfileHoverCard } from '@/components/chat/ProfileHoverCard'
+import { PresenceDot } from '@/components/chat/PresenceDot'
+import { AddChannelMembersDialog } from '@/components/dialogs/AddChannelMembersDialog'
+import type { Channel, ChannelMember, User } from '@/blink/types'
+import { useProfiles, getDisplayName, getInitials } from '@/hooks/use-profiles'
+import { getCustomStatus } from '@/lib/presence'
+
+interface ChannelMembersPanelProps {
+  channel: Channel
+  members: ChannelMember[]
+  user: User
+  canAddMembers: boolean
+  canRemoveMembers: boolean
+  onAddMembers: (userIds: string[]) => Promise<void>
+  onRemoveMember: (userId: string) => void
+  onJoin: () => void
+  onLeave: () => void
+  onClose: () => void
+}
+
+export function ChannelMembersPanel({
+  channel,
+  members,
+  user,
+  canAddMembers,
+  canRemoveMembers,
+  onAddMembers,
+  onRemoveMember,
+  onJoin,
+  onLeave,
+  onClose
+}: ChannelMembersPanelProps) {
+  const [showAddMembers, setShowAddMembers] = useState(false)
+  const [showLeaveDialog, setShowLeaveDialog] = useState(false)
+  const profiles = useProfiles(members.map(member => member.userId))
+
+  const isDirect = Number(channel.isDirect) > 0
+  const isPrivate = Number(channel.isPrivate) > 0
+  const isMember = members.some(member => member.userId === user.id)
+
+  // Current user first, then alphabetical
+  const sortedMembers = [...members].sort((a, b) => {
+    if (a.userId === user.id) return -1
+    if (b.userId === user.id) return 1
+    return getDisplayName(a.userId, profiles[a.userId]).localeCompare(getDisplayName(b.userId, profiles[b.userId]))
+  })
+
+  // Leaving a private channel can't be undone without a new invite
+  const handleLeave = () => {
+    if (isPrivate) {
+      setShowLeaveDialog(true)
+    } else {
+      onLeave()
+    }
+  }
+
+  return (
+    <div className="w-96 border-l border-border flex flex-col bg-background">
+      {/* Header */}
+      <div className="h-14 border-b border-border flex items-center justify-between px-4">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Users className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <h3 className="font-semibold text-foreground truncate">
+            {members.length} {members.length === 1 ? 'member' : 'members'}
+          </h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Actions */}
+      {!isDirect && (
+        <div className="flex items-center space-x-2 p-4 border-b border-border">
+          {isMember ? (
+            <>
+              {canAddMembers && (
+                <Button variant="outline" size="sm" onClick={() => setShowAddMembers(true)}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  {isPrivate ? 'Invite people' : 'Add people'}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleLeave}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Leave channel
+              </Button>
+            </>
+          ) : isPrivate ? (
+            <p className="text-sm text-muted-foreground">Only members can invite people to this channel.</p>
+          ) : (
+            <Button size="sm" onClick={onJoin} className="bg-slack-green hover:bg-slack-active">
+              Join channel
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Members */}
+      <ScrollArea className="flex-1">
+        <div className="p-2">
+          {sortedMembers.map((member) => {
+            const profile = profiles[member.userId]
+            const isSelf = member.userId === user.id
+            const customStatus = getCustomStatus(profile)
+            return (
+              <div
+                key={member.id}
+                className="group flex items-center justify-between p-2 rounded-md hover:bg-muted"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="relative shrink-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={profile?.avatarUrl} />
+                      <AvatarFallback className="bg-slack-green text-white text-xs">
+                        {getInitials(member.userId, profile)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <PresenceDot userId={member.userId} className="absolute -bottom-0.5 -right-0.5" />
+                  </div>
+                  <div className="min-w-0">
+                    <ProfileHoverCard userId={member.userId}>
+                      <span className="text-sm font-medium text-foreground truncate">
+                        {getDisplayName(member.userId, profile)}{isSelf && ' (you)'}
+                      </span>
+                    </ProfileHoverCard>
+                    {customStatus && (
+                      <span className="ml-1 text-sm" title={customStatus.text || undefined}>
+                        {customStatus.emoji}
+                      </span>
+                    )}
+                    {profile?.title && (
+                      <div className="text-xs text-muted-foreground truncate">{profile.title}</div>
+                    )}
+                  </div>
+                </div>
+                {!isDirect && isMember && canRemoveMembers && !isSelf && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRemoveMember(member.userId)}
+                    className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100"
+                    title="Remove from channel"
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </ScrollArea>
+
+      <AddChannelMembersDialog
+        open={showAddMembers}
+        onOpenChange={setShowAddMembers}
+        groupId={channel.groupId}
+        channelName={channel.name}
+        isPrivate={isPrivate}
+        existingMemberIds={members.map(member => member.userId)}
+        onAddMembers={onAddMembers}
+      />
+
+      <AlertDialog open={showLeaveDialog} onOpenChange={setShowLeaveDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave #{channel.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This channel is private. You'll lose access to its messages until a member invites you back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={onLeave}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Leave channel
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -1,116 +1,678 @@
-import React, { useState, useEffect, useRef } from 'react'
-import { Hash, Users, Search, Pin } from 'lucide-react'
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Hash, Lock, Users, Search, Pin, Upload, MessageCircle, Archive, ArchiveRestore, ChevronUp, ChevronDown } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { MessageList } from '@/components/chat/MessageList'
 import { MessageInput } from '@/components/chat/MessageInput'
-import { blink } from '@/blink/client'
+import type { MessageInputHandle } from '@/components/chat/MessageInput'
+import { getDraft } from '@/hooks/use-drafts'
+import type { DraftLocation } from '@/hooks/use-drafts'
+import type { SlashCommandHost } from '@/lib/slash-commands'
+import { ThreadPanel } from '@/components/chat/ThreadPanel'
+import { SearchPanel } from '@/components/chat/SearchPanel'
+import { PinnedMessagesPopover } from '@/components/chat/PinnedMessagesPopover'
+import { ChannelMembersPanel } from '@/components/chat/ChannelMembersPanel'
+import { TypingIndicator } from '@/components/chat/TypingIndicator'
+import { db } from '@/blink/db'
+import { listChannelMembers, addChannelMembers, removeChannelMember } from '@/blink/channel-members'
+import { publishChannelEvent } from '@/blink/realtime'
+import type { Attachment, Channel, ChannelMember, Message, PinnedMessage, Reaction, User } from '@/blink/types'
+import { useChannelEvents } from '@/hooks/use-channel-events'
+import { useToast } from '@/hooks/use-toast'
+import { getChannelSnapshot, saveChannelSnapshot } from '@/hooks/use-workspace-store'
+import type { ChannelSnapshot } from '@/hooks/use-workspace-store'
+import { useTypingIndicator } from '@/hooks/use-typing'
+import { enqueueMessage, useOutbox } from '@/hooks/use-outbox'
+import { getReadCursor, markChannelRead } from '@/hooks/use-unread'
+import { serializeMentions, mentionToken } from '@/lib/mentions'
+import { isMembersOnlyChannel } from '@/lib/channel-access'
+import { findSearchMatches, getSearchNeedles, parseSearchQuery } from '@/lib/search'
+import { hasPermission } from '@/lib/permissions'
 
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
-
-interface Message {
-  id: string
-  channelId: string
-  userId: string
-  content: string
-  messageType: string
-  threadId?: string
-  replyCount: number
-  createdAt: string
-  updatedAt: string
-}
+// Messages fetched per page when opening a channel or scrolling back
+const MESSAGE_PAGE_SIZE = 50
 
-interface Channel {
-  id: string
-  groupId: string
-  name: string
-  description?: string
-  isPrivate: boolean
-  createdBy: string
-  createdAt: string
-}
+// How long a jumped-to message stays highlighted
+const HIGHLIGHT_DURATION = 3000
 
 interface ChatAreaProps {
   activeChannel: string | null
+  channels: Channel[]
+  focusMessageId?: string | null
+  role?: string
   user: User
   isAIOpen: boolean
+  onJumpToMessage: (channelId: string, messageId: string) => void
+  onMembershipChange: () => void
 }
 
-export function ChatArea({ activeChannel, user, isAIOpen }: ChatAreaProps) {
+export function ChatArea({ activeChannel, channels, focusMessageId = null, role, user, isAIOpen, onJumpToMessage, onMembershipChange }: ChatAreaProps) {
   const [messages, setMessages] = useState<Message[]>([])
+  const [reactions, setReactions] = useState<Reaction[]>([])
+  const [pins, setPins] = useState<PinnedMessage[]>([])
+  const [channelMembers, setChannelMembers] = useState<ChannelMember[]>([])
+  const [accessDenied, setAccessDenied] = useState(false)
+  const [reloadVersion, setReloadVersion] = useState(0)
+  const [showMembers, setShowMembers] = useState(false)
   const [channel, setChannel] = useState<Channel | null>(null)
   const [loading, setLoading] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
-  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const [threadMessage, setThreadMessage] = useState<Message | null>(null)
+  const [searchPanelQuery, setSearchPanelQuery] = useState<string | null>(null)
+  const [activeMatchIndex, setActiveMatchIndex] = useState<number | null>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const [unreadAfter, setUnreadAfter] = useState<string | null>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const [hasMoreMessages, setHasMoreMessages] = useState(false)
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+  const messageInputRef = useRef<MessageInputHandle>(null)
+  const dragDepthRef = useRef(0)
+  const activeChannelRef = useRef(activeChannel)
+  const oldestCursorRef = useRef<string | null>(null)
+  const isLoadingOlderRef = useRef(false)
+  const { toast } = useToast()
+  const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(activeChannel, user.id)
+
+  // Fetch one page of timeline messages older than the cursor, newest first.
+  // Thread replies only live in the thread panel, so they'd only use up pages.
+  const fetchMessagePage = async (channelId: string, before: string | null, limit = MESSAGE_PAGE_SIZE): Promise<Message[]> => {
+    return db.messages.list({
+      where: before
+        ? { channelId, threadId: { is: null }, createdAt: { lt: before } }
+        : { channelId, threadId: { is: null } },
+      orderBy: { createdAt: 'desc' },
+      limit
+    })
+  }
+
+  // Advance the cursor past a fetched page and return its messages, oldest first
+  const applyMessagePage = (page: Message[], limit = MESSAGE_PAGE_SIZE) => {
+    if (page.length > 0) {
+      oldestCursorRef.current = page[page.length - 1].createdAt
+    }
+    setHasMoreMessages(page.length === limit)
+    return [...page].reverse()
+  }
+
+  const fetchReactions = async (messageIds: string[]): Promise<Reaction[]> => {
+    if (messageIds.length === 0) return []
+
+    return db.messageReactions.list({
+      where: { messageId: { in: messageIds } },
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  // Load reactions for the given messages and merge them into state
+  const loadReactions = useCallback(async (messageIds: string[]) => {
+    try {
+      const reactionsData = await fetchReactions(messageIds)
 
-  // Load channel data and messages
+      setReactions(prev => {
+        const knownIds = new Set(prev.map(reaction => reaction.id))
+        return [...prev, ...reactionsData.filter(reaction => !knownIds.has(reaction.id))]
+      })
+    } catch (error) {
+      console.error('Error loading reactions:', error)
+    }
+  }, [])
+
+  // Find the timeline message to jump to; replies are shown through their parent's thread,
+  // and a message with an unsent reply draft reopens its thread
+  const resolveFocusTarget = async (channelId: string, messageId: string) => {
+    const target: Message | null = await db.messages.get(messageId)
+    if (!target || target.channelId !== channelId) return null
+    if (!target.threadId) return { anchor: target, thread: getDraft(channelId, target.id) ? target : null }
+
+    const parent: Message | null = await db.messages.get(target.threadId)
+    return parent ? { anchor: parent, thread: parent } : null
+  }
+
+  // Load channel data and the newest page of messages, extended back far
+  // enough to include the message being jumped to. A channel opened before
+  // shows its last snapshot straight away and is refreshed underneath; private
+  // channels and DMs only once membership has been checked again.
   useEffect(() => {
+    activeChannelRef.current = activeChannel
     if (!activeChannel) return
 
+    const snapshot = focusMessageId ? null : getChannelSnapshot(activeChannel)
+    const isSnapshotPublic = !!snapshot && !isMembersOnlyChannel(snapshot.channel)
+
+    const showSnapshot = (shown: ChannelSnapshot) => {
+      setPins(shown.pins)
+      setMessages(shown.messages)
+      setReactions(shown.reactions)
+      setHasMoreMessages(shown.hasMore)
+      oldestCursorRef.current = shown.oldestCursor
+    }
+
+    setThreadMessage(null)
+    setHighlightedMessageId(null)
+    setUnreadAfter(null)
+    setAccessDenied(false)
+    if (snapshot && isSnapshotPublic) {
+      setChannel(snapshot.channel)
+      setChannelMembers(snapshot.members)
+      showSnapshot(snapshot)
+    } else {
+      setReactions([])
+      setPins([])
+      setChannelMembers([])
+      setHasMoreMessages(false)
+      oldestCursorRef.current = null
+    }
+
+    // Only apply results while the channel they were loaded for is still open
+    const isCurrent = () => activeChannelRef.current === activeChannel
+
     const loadChannelData = async () => {
-      setLoading(true)
+      if (!isSnapshotPublic) setLoading(true)
       try {
-        // Load channel info
-        const channelData = await blink.db.channels.list({
-          where: { id: activeChannel },
-          limit: 1
-        })
-        
-        if (channelData.length > 0) {
-          setChannel(channelData[0])
+        const [channelData, membersData] = await Promise.all([
+          db.channels.get(activeChannel),
+          listChannelMembers(activeChannel)
+        ])
+        if (!isCurrent()) return
+
+        if (channelData) setChannel(channelData)
+        setChannelMembers(membersData)
+
+        // Private channels can only be read by their members
+        if (channelData && isMembersOnlyChannel(channelData) &&
+            !membersData.some(member => member.userId === user.id)) {
+          setMessages([])
+          setAccessDenied(true)
+          return
+        }
+        if (snapshot && !isSnapshotPublic) {
+          showSnapshot(snapshot)
+          setLoading(false)
         }
 
-        // Load messages
-        const messagesData = await blink.db.messages.list({
-          where: { channelId: activeChannel },
-          orderBy: { createdAt: 'asc' },
-          limit: 100
-        })
-        
-        setMessages(messagesData)
+        const focusTarget = focusMessageId ? await resolveFocusTarget(activeChannel, focusMessageId) : null
+        let limit = MESSAGE_PAGE_SIZE
+        if (focusTarget) {
+          const newerCount: number = await db.messages.count({
+            where: { channelId: activeChannel, createdAt: { gte: focusTarget.anchor.createdAt } }
+          })
+          limit = newerCount + MESSAGE_PAGE_SIZE
+        }
+
+        // Load the pins and newest page of messages, remembering where the user stopped reading
+        const [pinsData, lastReadAt, page] = await Promise.all([
+          db.pinnedMessages.list({
+            where: { channelId: activeChannel },
+            orderBy: { createdAt: 'desc' }
+          }),
+          getReadCursor(user.id, activeChannel),
+          fetchMessagePage(activeChannel, null, limit)
+        ])
+        if (!isCurrent()) return
+
+        const pageMessages = applyMessagePage(page, limit)
+        setPins(pinsData)
+        setUnreadAfter(lastReadAt)
+        setMessages(pageMessages)
+
+        if (focusTarget) {
+          setHighlightedMessageId(focusTarget.anchor.id)
+          setThreadMessage(focusTarget.thread)
+        }
+
+        const reactionsData = await fetchReactions(pageMessages.map(message => message.id))
+        if (isCurrent()) setReactions(reactionsData)
       } catch (error) {
         console.error('Error loading channel data:', error)
       } finally {
-        setLoading(false)
+        if (isCurrent()) setLoading(false)
       }
     }
 
     loadChannelData()
-  }, [activeChannel])
+  }, [activeChannel, focusMessageId, user.id, reloadVersion])
 
-  // Auto-scroll to bottom when new messages arrive
+  // Remember the open channel so switching back to it is instant
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+    if (!channel || channel.id !== activeChannel || loading || accessDenied) return
 
-  // Handle sending new message
-  const handleSendMessage = async (content: string, messageType: string = 'text') => {
-    if (!activeChannel || !content.trim()) return
+    saveChannelSnapshot({
+      channel,
+      members: channelMembers,
+      pins,
+      messages,
+      reactions,
+      hasMore: hasMoreMessages,
+      oldestCursor: oldestCursorRef.current
+    })
+  }, [activeChannel, channel, channelMembers, pins, messages, reactions, hasMoreMessages, loading, accessDenied])
 
+  // Let the jump highlight fade out
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const timeout = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION)
+    return () => clearTimeout(timeout)
+  }, [highlightedMessageId])
+
+  // Fetch the next older page as the user scrolls up
+  const loadOlderMessages = useCallback(async () => {
+    const channelId = activeChannelRef.current
+    if (!channelId || !oldestCursorRef.current || isLoadingOlderRef.current) return
+
+    isLoadingOlderRef.current = true
+    setIsLoadingOlder(true)
     try {
-      const newMessage = await blink.db.messages.create({
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        channelId: activeChannel,
-        userId: user.id,
-        content: content.trim(),
-        messageType,
-        replyCount: 0
-      })
+      const page = await fetchMessagePage(channelId, oldestCursorRef.current)
+      if (channelId !== activeChannelRef.current) return
 
-      // Add to local state for immediate UI update
-      setMessages(prev => [...prev, newMessage])
+      const olderMessages = applyMessagePage(page)
+      setMessages(prev => {
+        const knownIds = new Set(prev.map(msg => msg.id))
+        return [...olderMessages.filter(msg => !knownIds.has(msg.id)), ...prev]
+      })
+      loadReactions(olderMessages.map(message => message.id))
     } catch (error) {
-      console.error('Error sending message:', error)
+      console.error('Error loading older messages:', error)
+    } finally {
+      isLoadingOlderRef.current = false
+      setIsLoadingOlder(false)
     }
+  }, [loadReactions])
+
+  const addMessage = (newMessage: Message) => {
+    setMessages(prev => prev.some(msg => msg.id === newMessage.id) ? prev : [...prev, newMessage])
+  }
+
+  // Messages show up straight away from the outbox, which sends them in order
+  // and keeps them through failures and reloads
+  const handleSendMessage = (content: string, messageType: string = 'text', attachment?: Attachment) => {
+    if (!activeChannel || (!content.trim() && !attachment)) return
+
+    stopTyping()
+
+    enqueueMessage({
+      channelId: activeChannel,
+      userId: user.id,
+      content: content.trim(),
+      messageType,
+      mentions: serializeMentions(content),
+      attachmentUrl: attachment?.url,
+      attachmentName: attachment?.name,
+      attachmentSize: attachment?.size,
+      attachmentMimeType: attachment?.mimeType
+    })
+  }
+
+  // Drag-and-drop file uploads onto the chat area
+  const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files')
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return
+    e.preventDefault()
+    dragDepthRef.current += 1
+    setIsDraggingFiles(true)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFiles(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return
+    e.preventDefault()
+    dragDepthRef.current = 0
+    setIsDraggingFiles(false)
+    messageInputRef.current?.addFiles(Array.from(e.dataTransfer.files))
   }
 
   // Handle message deletion
   const handleMessageDeleted = (messageId: string) => {
     setMessages(prev => prev.filter(msg => msg.id !== messageId))
+    setPins(prev => prev.filter(pin => pin.messageId !== messageId))
+    if (threadMessage?.id === messageId) {
+      setThreadMessage(null)
+    }
+  }
+
+  // Handle message edits
+  const handleMessageUpdated = (updatedMessage: Partial<Message> & { id: string }) => {
+    setMessages(prev => prev.map(msg => msg.id === updatedMessage.id ? { ...msg, ...updatedMessage } : msg))
+    setThreadMessage(prev => prev?.id === updatedMessage.id ? { ...prev, ...updatedMessage } : prev)
+  }
+
+  // Add or remove the current user's reaction
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    const existing = reactions.find(reaction =>
+      reaction.messageId === message.id &&
+      reaction.userId === user.id &&
+      reaction.emoji === emoji
+    )
+
+    try {
+      if (existing) {
+        setReactions(prev => prev.filter(reaction => reaction.id !== existing.id))
+        await db.messageReactions.delete(existing.id)
+        publishChannelEvent(message.channelId, { type: 'reaction.removed', reactionId: existing.id })
+      } else {
+        const newReaction = await db.messageReactions.create({
+          messageId: message.id,
+          channelId: message.channelId,
+          userId: user.id,
+          emoji
+        })
+        setReactions(prev => [...prev, newReaction])
+        publishChannelEvent(message.channelId, { type: 'reaction.added', reaction: newReaction })
+      }
+    } catch (error) {
+      console.error('Error updating reaction:', error)
+      if (existing) {
+        setReactions(prev => [...prev, existing])
+      }
+    }
+  }
+
+  // Post a one-line event (such as a pin) into the channel timeline
+  const postSystemMessage = async (systemEvent: string, content: string, refMessageId?: string) => {
+    if (!activeChannel) return
+
+    const systemMessage = await db.messages.create({
+      channelId: activeChannel,
+      userId: user.id,
+      content,
+      messageType: 'system',
+      systemEvent,
+      refMessageId,
+      replyCount: 0
+    })
+
+    addMessage(systemMessage)
+    publishChannelEvent(activeChannel, { type: 'message.created', message: systemMessage })
+  }
+
+  // Pin or unpin a message for everyone in the channel
+  const handleTogglePin = async (message: Message) => {
+    if (!hasPermission(role, 'message.pin')) return
+
+    const existing = pins.find(pin => pin.messageId === message.id)
+
+    try {
+      if (existing) {
+        await db.pinnedMessages.delete(existing.id)
+        setPins(prev => prev.filter(pin => pin.id !== existing.id))
+        publishChannelEvent(message.channelId, { type: 'pin.removed', pinId: existing.id })
+        await postSystemMessage('pin.removed', 'unpinned a message', message.id)
+      } else {
+        const newPin = await db.pinnedMessages.create({
+          channelId: message.channelId,
+          messageId: message.id,
+          pinnedBy: user.id
+        })
+        setPins(prev => [newPin, ...prev])
+        publishChannelEvent(message.channelId, { type: 'pin.added', pin: newPin })
+        await postSystemMessage('pin.added', 'pinned a message', message.id)
+      }
+    } catch (error) {
+      console.error('Error updating pin:', error)
+    }
+  }
+
+  // Archived channels leave the sidebar and stop accepting messages, but stay readable
+  const handleToggleArchive = async () => {
+    if (!channel || !hasPermission(role, 'channel.archive')) return
+
+    const isArchived = !Number(channel.isArchived)
+    try {
+      await db.channels.update(channel.id, { isArchived: isArchived ? 1 : 0 })
+      const updatedChannel = { ...channel, isArchived }
+      setChannel(updatedChannel)
+      publishChannelEvent(channel.id, { type: 'channel.updated', channel: updatedChannel })
+      await postSystemMessage(
+        isArchived ? 'channel.archived' : 'channel.unarchived',
+        isArchived ? 'archived the channel' : 'unarchived the channel'
+      )
+      onMembershipChange()
+    } catch (error) {
+      console.error('Error archiving channel:', error)
+      toast({
+        title: 'Error',
+        description: `Failed to ${isArchived ? 'archive' : 'unarchive'} the channel. Please try again.`,
+        variant: 'destructive'
+      })
+    }
+  }
+
+  // Change the description shown under the channel name
+  const handleSetTopic = async (topic: string) => {
+    if (!channel || !hasPermission(role, 'channel.editTopic')) return
+
+    await db.channels.update(channel.id, { description: topic })
+    const updatedChannel = { ...channel, description: topic }
+    setChannel(updatedChannel)
+    publishChannelEvent(channel.id, { type: 'channel.updated', channel: updatedChannel })
+    await postSystemMessage('channel.topic', `set the channel topic: ${topic}`)
+    onMembershipChange()
+  }
+
+  const handleMessagesSeen = (lastSeenAt: string) => {
+    if (activeChannel) markChannelRead(user.id, activeChannel, lastSeenAt)
+  }
+
+  const pinnedMessageIds = useMemo(() => new Set(pins.map(pin => pin.messageId)), [pins])
+
+  // Scroll to a message that's already loaded, or reload the channel around it
+  const handleJumpToMessage = (messageId: string) => {
+    if (messages.some(message => message.id === messageId)) {
+      setHighlightedMessageId(messageId)
+    } else if (activeChannel) {
+      onJumpToMessage(activeChannel, messageId)
+    }
+  }
+
+  const reloadChannelMembers = async (channelId: string) => {
+    try {
+      const membersData = await listChannelMembers(channelId)
+      if (channelId === activeChannelRef.current) {
+        setChannelMembers(membersData)
+        // Load the history once someone invites us into a private channel
+        if (accessDenied && membersData.some(member => member.userId === user.id)) {
+          setReloadVersion(version => version + 1)
+        }
+      }
+    } catch (error) {
+      console.error('Error loading channel members:', error)
+    }
+  }
+
+  // Run a membership change, then refresh the member list, other clients and the sidebar
+  const updateMembership = async (action: (channelId: string) => Promise<void>, failureMessage: string) => {
+    if (!activeChannel) return
+
+    try {
+      await action(activeChannel)
+      await reloadChannelMembers(activeChannel)
+      publishChannelEvent(activeChannel, { type: 'members.changed' })
+      onMembershipChange()
+    } catch (error) {
+      console.error('Error updating channel membership:', error)
+      toast({
+        title: 'Error',
+        description: failureMessage,
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleJoinChannel = () => updateMembership(async (channelId) => {
+    await addChannelMembers(channelId, [user.id])
+    await postSystemMessage('member.joined', 'joined the channel')
+  }, 'Failed to join the channel. Please try again.')
+
+  const handleLeaveChannel = () => updateMembership(async (channelId) => {
+    await postSystemMessage('member.left', 'left the channel')
+    await removeChannelMember(channelId, user.id)
+  }, 'Failed to leave the channel. Please try again.')
+
+  const handleAddMembers = (userIds: string[]) => updateMembership(async (channelId) => {
+    if (!hasPermission(role, 'channel.addMembers')) return
+    const added = await addChannelMembers(channelId, userIds)
+    if (added.length > 0) {
+      const names = added.map(member => mentionToken(member.userId)).join(', ')
+      await postSystemMessage('member.added', `added ${names} to the channel`)
+    }
+  }, 'Failed to add people. Please try again.')
+
+  const handleRemoveMember = (userId: string) => updateMembership(async (channelId) => {
+    if (!hasPermission(role, 'channel.removeMembers')) return
+    await removeChannelMember(channelId, userId)
+    await postSystemMessage('member.removed', `removed ${mentionToken(userId)} from the channel`)
+  }, 'Failed to remove the member. Please try again.')
+
+  const isMember = channelMembers.some(member => member.userId === user.id)
+  const isPrivate = Number(channel?.isPrivate) > 0
+  // Also covers leaving a private channel while it is open
+  const isLocked = accessDenied || (!loading && !!channel && isMembersOnlyChannel(channel) && !isMember)
+
+  // Threads, search results and the member list share the side panel
+  const handleOpenThread = (message: Message) => {
+    setSearchPanelQuery(null)
+    setShowMembers(false)
+    setThreadMessage(message)
+  }
+
+  // The channel filter uses the words and quoted phrases of the query;
+  // from:, in: and other filters only apply to the full search
+  const searchNeedles = useMemo(() => getSearchNeedles(parseSearchQuery(searchQuery)), [searchQuery])
+  const searchMatches = useMemo(() => findSearchMatches(messages, searchNeedles), [messages, searchNeedles])
+  const activeMatch = activeMatchIndex !== null ? searchMatches[activeMatchIndex] ?? null : null
+
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchQuery(e.target.value)
+    setActiveMatchIndex(null)
+  }
+
+  // Step through matches, wrapping around at either end; the first step back
+  // lands on the newest match
+  const stepSearchMatch = (direction: 1 | -1) => {
+    if (searchMatches.length === 0) return
+    const start = activeMatchIndex ?? (direction === 1 ? -1 : searchMatches.length)
+    setActiveMatchIndex((start + direction + searchMatches.length) % searchMatches.length)
+  }
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && searchQuery.trim()) {
+      e.preventDefault()
+      setThreadMessage(null)
+      setShowMembers(false)
+      setSearchPanelQuery(searchQuery.trim())
+    }
+  }
+
+  const handleToggleMembers = () => {
+    setThreadMessage(null)
+    setSearchPanelQuery(null)
+    setShowMembers(prev => !prev)
+  }
+
+  // Keep the "N replies" indicator in sync with the thread panel
+  const handleReplyCountChange = (messageId: string, replyCount: number) => {
+    setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, replyCount } : msg))
+    setThreadMessage(prev => prev?.id === messageId ? { ...prev, replyCount } : prev)
+  }
+
+  // Sent messages move from the outbox into the timeline; the realtime echo is de-duplicated by id
+  const outbox = useOutbox(activeChannel, null, (sentMessage, replyCount) => {
+    if (!sentMessage.threadId) {
+      addMessage(sentMessage)
+    } else if (replyCount !== undefined) {
+      handleReplyCountChange(sentMessage.threadId, replyCount)
+    }
+  })
+
+  const timelineMessages = useMemo(() => {
+    if (outbox.length === 0) return messages
+    const knownIds = new Set(messages.map(message => message.id))
+    return [...messages, ...outbox.map(entry => entry.message).filter(message => !knownIds.has(message.id))]
+  }, [messages, outbox])
+
+  const deliveryStatuses = useMemo(() =>
+    Object.fromEntries(outbox.map(entry => [entry.message.id, entry.status])), [outbox])
+
+  // Apply inserts, edits and deletes made by other clients
+  useChannelEvents(activeChannel, (event) => {
+    // Membership changes are the only events a locked channel listens for
+    if (isLocked && event.type !== 'members.changed') return
+
+    switch (event.type) {
+      case 'message.created':
+        // Replies surface through the parent's replyCount instead
+        if (!event.message.threadId) {
+          addMessage(event.message)
+        }
+        break
+      case 'message.updated':
+        handleMessageUpdated(event.message)
+        break
+      case 'message.deleted':
+        handleMessageDeleted(event.messageId)
+        break
+      case 'reaction.added':
+        setReactions(prev => prev.some(reaction => reaction.id === event.reaction.id) ? prev : [...prev, event.reaction])
+        break
+      case 'reaction.removed':
+        setReactions(prev => prev.filter(reaction => reaction.id !== event.reactionId))
+        break
+      case 'pin.added':
+        setPins(prev => prev.some(pin => pin.id === event.pin.id) ? prev : [event.pin, ...prev])
+        break
+      case 'pin.removed':
+        setPins(prev => prev.filter(pin => pin.id !== event.pinId))
+        break
+      case 'members.changed':
+        if (activeChannel) reloadChannelMembers(activeChannel)
+        break
+      case 'channel.updated':
+        setChannel(event.channel)
+        break
+    }
+  })
+
+  const isDirect = Number(channel?.isDirect) > 0
+  const isArchived = Number(channel?.isArchived) > 0
+  const canPin = hasPermission(role, 'message.pin')
+  const canDeleteAnyMessage = hasPermission(role, 'message.deleteAny')
+  const canArchive = !isDirect && hasPermission(role, 'channel.archive')
+  const canAddMembers = hasPermission(role, 'channel.addMembers')
+  const canRemoveMembers = hasPermission(role, 'channel.removeMembers')
+  const canEditTopic = hasPermission(role, 'channel.editTopic')
+  const channelLabel = channel ? `${isDirect ? '' : '#'}${channel.name}` : '#channel'
+
+  // Unsent text is kept per channel; the sidebar list knows the channel before it finishes loading here
+  const draftChannel = channel?.id === activeChannel ? channel : channels.find(c => c.id === activeChannel)
+  const draftLocation: DraftLocation | undefined = draftChannel && {
+    groupId: draftChannel.groupId,
+    channelId: draftChannel.id,
+    label: `${Number(draftChannel.isDirect) ? '' : '#'}${draftChannel.name}`
+  }
+
+  // Channel commands need a loaded channel the user belongs to; DMs have no topic or membership to manage
+  const channelActions = channel?.id === activeChannel && isMember && !isDirect
+  const commandHost: SlashCommandHost | undefined = draftLocation && {
+    groupId: draftLocation.groupId,
+    channelId: draftLocation.channelId,
+    threadId: null,
+    setTopic: channelActions && canEditTopic ? handleSetTopic : undefined,
+    addMembers: channelActions && canAddMembers ? handleAddMembers : undefined,
+    leave: channelActions ? handleLeaveChannel : undefined
   }
 
   if (!activeChannel) {
@@ -130,75 +692,269 @@ export function ChatArea({ activeChannel, user, isAIOpen }: ChatAreaProps) {
   }
 
   return (
-    <div className={`flex-1 flex flex-col bg-background ${isAIOpen ? 'mr-0' : ''}`}>
-      {/* Channel Header */}
-      <div className="h-14 border-b border-border flex items-center justify-between px-4">
-        <div className="flex items-center">
-          <Hash className="h-5 w-5 text-muted-foreground mr-2" />
-          <div>
-            <h2 className="font-semibold text-foreground">
-              {channel?.name || 'Loading...'}
-            </h2>
-            {channel?.description && (
-              <p className="text-xs text-muted-foreground">
-                {channel.description}
+    <div className="flex-1 flex min-w-0">
+      <div
+        className={`relative flex-1 flex flex-col bg-background min-w-0 ${isAIOpen ? 'mr-0' : ''}`}
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {/* Drop Overlay */}
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-20 flex items-center justify-center bg-background/80 border-2 border-dashed border-slack-green rounded-md pointer-events-none">
+            <div className="text-center">
+              <Upload className="h-10 w-10 text-slack-green mx-auto mb-2" />
+              <p className="font-semibold text-foreground">
+                Drop files to upload to {channelLabel}
               </p>
-            )}
+            </div>
           </div>
-        </div>
+        )}
 
-        <div className="flex items-center space-x-2">
-          {/* Search */}
-          <div className="relative">
-            <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
-            <Input
-              placeholder="Search messages..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-9 w-64"
-            />
+        {/* Channel Header */}
+        <div className="h-14 border-b border-border flex items-center justify-between px-4">
+          <div className="flex items-center">
+            {isDirect ? (
+              <MessageCircle className="h-5 w-5 text-muted-foreground mr-2" />
+            ) : isPrivate ? (
+              <Lock className="h-5 w-5 text-muted-foreground mr-2" />
+            ) : (
+              <Hash className="h-5 w-5 text-muted-foreground mr-2" />
+            )}
+            <div>
+              <h2 className="font-semibold text-foreground">
+                {channel?.name || 'Loading...'}
+              </h2>
+              {channel?.description && (
+                <p className="text-xs text-muted-foreground">
+                  {channel.description}
+                </p>
+              )}
+            </div>
           </div>
 
-          {/* Channel Actions */}
-          <Button variant="ghost" size="sm">
-            <Pin className="h-4 w-4" />
-          </Button>
-          <Button variant="ghost" size="sm">
-            <Users className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center space-x-2">
+            {/* Search */}
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search messages..."
+                value={searchQuery}
+                onChange={handleSearchChange}
+                onKeyDown={handleSearchKeyDown}
+                title="Filters this channel as you type; press Enter to search all channels"
+                className="pl-9 w-64"
+              />
+            </div>
+            {searchNeedles.length > 0 && (
+              <div className="flex items-center">
+                <span className="text-xs text-muted-foreground whitespace-nowrap mr-1">
+                  {activeMatchIndex !== null && searchMatches.length > 0
+                    ? `${activeMatchIndex + 1} of ${searchMatches.length}`
+                    : `${searchMatches.length} ${searchMatches.length === 1 ? 'match' : 'matches'}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Previous match"
+                  disabled={searchMatches.length === 0}
+                  onClick={() => stepSearchMatch(-1)}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Next match"
+                  disabled={searchMatches.length === 0}
+                  onClick={() => stepSearchMatch(1)}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {/* Channel Actions */}
+            {!isLocked && (
+              <>
+                <PinnedMessagesPopover pins={pins} onJumpToMessage={handleJumpToMessage}>
+                  <Button variant="ghost" size="sm" title="Pinned messages">
+                    <Pin className="h-4 w-4" />
+                    {pins.length > 0 && (
+                      <span className="ml-1 text-xs">{pins.length}</span>
+                    )}
+                  </Button>
+                </PinnedMessagesPopover>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Members"
+                  onClick={handleToggleMembers}
+                  className={showMembers ? 'bg-muted' : ''}
+                >
+                  <Users className="h-4 w-4" />
+                  {channelMembers.length > 0 && (
+                    <span className="ml-1 text-xs">{channelMembers.length}</span>
+                  )}
+                </Button>
+                {canArchive && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={isArchived ? 'Unarchive channel' : 'Archive channel'}
+                    onClick={handleToggleArchive}
+                  >
+                    {isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Messages Area */}
-      <div className="flex-1 overflow-hidden flex flex-col">
-        {loading ? (
-          <div className="flex-1 flex items-center justify-center">
-            <div className="text-center">
-              <div className="w-6 h-6 border-2 border-slack-purple border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
-              <p className="text-sm text-muted-foreground">Loading messages...</p>
+        {/* Messages Area */}
+        <div className="flex-1 overflow-hidden flex flex-col">
+          {loading ? (
+            <div className="flex-1 flex items-center justify-center">
+              <div className="text-center">
+                <div className="w-6 h-6 border-2 border-slack-purple border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
+                <p className="text-sm text-muted-foreground">Loading messages...</p>
+              </div>
+            </div>
+          ) : isLocked ? (
+            <div className="flex-1 flex items-center justify-center">
+              <div className="text-center max-w-sm">
+                <Lock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-foreground mb-2">
+                  This channel is private
+                </h3>
+                <p className="text-muted-foreground">
+                  Only its members can see messages in {channelLabel}. Ask a member to invite you.
+                </p>
+              </div>
             </div>
+          ) : (
+            <>
+              <MessageList 
+                key={activeChannel}
+                messages={timelineMessages}
+                user={user}
+                groupId={channel?.groupId}
+                reactions={reactions}
+                searchNeedles={searchNeedles}
+                activeMatch={activeMatch}
+                highlightedMessageId={highlightedMessageId}
+                deliveryStatuses={deliveryStatuses}
+                onMessageDeleted={handleMessageDeleted}
+                onMessageUpdated={handleMessageUpdated}
+                onReply={handleOpenThread}
+                onToggleReaction={handleToggleReaction}
+                pinnedMessageIds={pinnedMessageIds}
+                onTogglePin={canPin ? handleTogglePin : undefined}
+                canDeleteAnyMessage={canDeleteAnyMessage}
+                onJumpToMessage={handleJumpToMessage}
+                unreadAfter={unreadAfter}
+                onMessagesSeen={handleMessagesSeen}
+                hasMore={hasMoreMessages}
+                isLoadingMore={isLoadingOlder}
+                onLoadMore={loadOlderMessages}
+              />
+            </>
+          )}
+        </div>
+
+        {/* Message Input */}
+        {!isLocked && (
+          <div className="border-t border-border p-4">
+            {isArchived ? (
+              <div className="flex items-center justify-between rounded-md bg-muted/50 px-4 py-3">
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-medium text-foreground">{channelLabel}</span> has been archived. Its history is read-only.
+                </p>
+                {canArchive && (
+                  <Button size="sm" variant="outline" onClick={handleToggleArchive}>
+                    Unarchive
+                  </Button>
+                )}
+              </div>
+            ) : loading || isMember ? (
+              <>
+                <TypingIndicator userIds={typingUserIds} />
+                <MessageInput
+                  key={activeChannel}
+                  ref={messageInputRef}
+                  onSendMessage={handleSendMessage}
+                  placeholder={`Message ${channelLabel}`}
+                  user={user}
+                  groupId={channel?.groupId}
+                  draft={draftLocation}
+                  commandHost={commandHost}
+                  onTyping={(isTyping) => isTyping ? notifyTyping() : stopTyping()}
+                />
+              </>
+            ) : (
+              <div className="flex items-center justify-between rounded-md bg-muted/50 px-4 py-3">
+                <p className="text-sm text-muted-foreground">
+                  You're viewing <span className="font-medium text-foreground">{channelLabel}</span>. Join to send messages.
+                </p>
+                <Button size="sm" onClick={handleJoinChannel} className="bg-slack-green hover:bg-slack-active">
+                  Join channel
+                </Button>
+              </div>
+            )}
           </div>
-        ) : (
-          <>
-            <MessageList 
-              messages={messages} 
-              user={user}
-              searchQuery={searchQuery}
-              onMessageDeleted={handleMessageDeleted}
-            />
-            <div ref={messagesEndRef} />
-          </>
         )}
       </div>
 
-      {/* Message Input */}
-      <div className="border-t border-border p-4">
-        <MessageInput
-          onSendMessage={handleSendMessage}
-          placeholder={`Message #${channel?.name || 'channel'}`}
+      {/* Thread Panel */}
+      {threadMessage && !isLocked && (
+        <ThreadPanel
+          key={threadMessage.id}
+          parentMessage={threadMessage}
           user={user}
+          groupId={channel?.groupId}
+          channelLabel={channelLabel}
+          reactions={reactions}
+          onLoadReactions={loadReactions}
+          onClose={() => setThreadMessage(null)}
+          onReplyCountChange={handleReplyCountChange}
+          onMessageDeleted={handleMessageDeleted}
+          onMessageUpdated={handleMessageUpdated}
+          onToggleReaction={handleToggleReaction}
+          canDeleteAnyMessage={canDeleteAnyMessage}
+          isReadOnly={isArchived}
         />
-      </div>
+      )}
+
+      {/* Search Results */}
+      {searchPanelQuery !== null && (
+        <SearchPanel
+          query={searchPanelQuery}
+          channels={channels}
+          user={user}
+          onClose={() => setSearchPanelQuery(null)}
+          onJumpToMessage={onJumpToMessage}
+        />
+      )}
+
+      {/* Channel Members */}
+      {showMembers && channel && !isLocked && (
+        <ChannelMembersPanel
+          channel={channel}
+          members={channelMembers}
+          user={user}
+          canAddMembers={canAddMembers}
+          canRemoveMembers={canRemoveMembers}
+          onAddMembers={handleAddMembers}
+          onRemoveMember={handleRemoveMember}
+          onJoin={handleJoinChannel}
+          onLeave={handleLeaveChannel}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
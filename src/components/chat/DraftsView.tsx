@@ -0,0 +1,84 @@
+import { Pencil, Trash2 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import type { Group } from '@/blink/types'
+import { useDrafts, clearDraft } from '@/hooks/use-drafts'
+import type { Draft } from '@/hooks/use-drafts'
+
+interface DraftsViewProps {
+  groups: Group[]
+  onOpenDraft: (draft: Draft) => void
+}
+
+// Every unsent message, across all workspaces
+export function DraftsView({ groups, onOpenDraft }: DraftsViewProps) {
+  const drafts = useDrafts()
+
+  const getWorkspaceName = (groupId: string) => groups.find(group => group.id === groupId)?.name
+
+  return (
+    <div className="flex-1 flex flex-col bg-background min-w-0">
+      {/* Header */}
+      <div className="h-14 border-b border-border flex items-center px-4">
+        <Pencil className="h-5 w-5 text-muted-foreground mr-2" />
+        <h2 className="font-semibold text-foreground">Drafts</h2>
+        {drafts.length > 0 && (
+          <span className="ml-2 text-sm text-muted-foreground">{drafts.length}</span>
+        )}
+      </div>
+
+      {drafts.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <p className="text-muted-foreground mb-2">No drafts</p>
+            <p className="text-sm text-muted-foreground">Messages you start but don't send are kept here.</p>
+          </div>
+        </div>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="p-2 space-y-1">
+            {drafts.map(draft => {
+              const workspaceName = getWorkspaceName(draft.groupId)
+
+              return (
+                <div
+                  key={`${draft.channelId}:${draft.threadId ?? ''}`}
+                  className="group flex items-start rounded-md hover:bg-muted transition-colors"
+                >
+                  <button
+                    type="button"
+                    onClick={() => onOpenDraft(draft)}
+                    className="flex-1 min-w-0 text-left p-3"
+                  >
+                    <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                      <span className="truncate">
+                        <span className="font-semibold text-foreground">{draft.label}</span>
+                        {workspaceName && <span> · {workspaceName}</span>}
+                      </span>
+                      <span className="flex-shrink-0 ml-2">
+                        {formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <p className="text-sm text-foreground break-words line-clamp-2 whitespace-pre-wrap">
+                      {draft.content}
+                    </p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="m-2 h-8 w-8 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    title="Delete draft"
+                    onClick={() => clearDraft(draft.channelId, draft.threadId)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { Search, Clock } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  EMOJI_CATEGORIES,
+  getRecentEmojis,
+  addRecentEmoji,
+  searchEmojis
+} from '@/lib/emoji'
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void
+  children: ReactNode
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+  align?: 'start' | 'center' | 'end'
+}
+
+export function EmojiPicker({ onSelect, children, open, onOpenChange, align = 'end' }: EmojiPickerProps) {
+  const [internalOpen, setInternalOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [recentEmojis, setRecentEmojis] = useState<string[]>(() => getRecentEmojis())
+  const [activeCategory, setActiveCategory] = useState(
+    recentEmojis.length > 0 ? 'recent' : EMOJI_CATEGORIES[0].id
+  )
+
+  const isOpen = open ?? internalOpen
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setRecentEmojis(getRecentEmojis())
+    } else {
+      setQuery('')
+    }
+    setInternalOpen(nextOpen)
+    onOpenChange?.(nextOpen)
+  }
+
+  const handleSelect = (emoji: string) => {
+    setRecentEmojis(addRecentEmoji(emoji))
+    onSelect(emoji)
+    handleOpenChange(false)
+  }
+
+  const searchResults = searchEmojis(query)
+  const category = EMOJI_CATEGORIES.find(c => c.id === activeCategory)
+  const visibleEmojis = query.trim()
+    ? searchResults.map(entry => entry.emoji)
+    : activeCategory === 'recent'
+      ? recentEmojis
+      : category?.emojis.map(entry => entry.emoji) || []
+
+  const sectionLabel = query.trim()
+    ? 'Search results'
+    : activeCategory === 'recent'
+      ? 'Recently used'
+      : category?.label
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        {children}
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-80 p-0">
+        {/* Search */}
+        <div className="p-2 border-b border-border">
+          <div className="relative">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
+            <Input
+              autoFocus
+              placeholder="Search emoji..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-9 h-8"
+            />
+          </div>
+        </div>
+
+        {/* Categories */}
+        {!query.trim() && (
+          <div className="flex items-center justify-between px-2 py-1 border-b border-border">
+            <button
+              type="button"
+              title="Recently used"
+              onClick={() => setActiveCategory('recent')}
+              className={`h-7 w-7 flex items-center justify-center rounded hover:bg-muted ${
+                activeCategory === 'recent' ? 'bg-muted' : ''
+              }`}
+            >
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </button>
+            {EMOJI_CATEGORIES.map((c) => (
+              <button
+                key={c.id}
+                type="button"
+                title={c.label}
+                onClick={() => setActiveCategory(c.id)}
+                className={`h-7 w-7 flex items-center justify-center rounded hover:bg-muted ${
+                  activeCategory === c.id ? 'bg-muted' : ''
+                }`}
+              >
+                {c.icon}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Emoji Grid */}
+        <ScrollArea className="h-56">
+          <div className="p-2">
+            <p className="text-xs font-medium text-muted-foreground mb-1 px-1">{sectionLabel}</p>
+            {visibleEmojis.length > 0 ? (
+              <div className="grid grid-cols-8 gap-1">
+                {visibleEmojis.map((emoji) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => handleSelect(emoji)}
+                    className="h-8 w-8 flex items-center justify-center rounded text-lg hover:bg-muted"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                {query.trim() ? 'No emoji found' : 'No recently used emoji yet'}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,42 @@
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { safeRehypePlugins } from '@/lib/sanitize'
+
+interface MarkdownPreviewProps {
+  content: string
+}
+
+export function MarkdownPreview({ content }: MarkdownPreviewProps) {
+  return (
+    <div className="min-h-[100px] max-h-[300px] overflow-y-auto p-3 border border-border rounded-md bg-background">
+      {content.trim() ? (
+        <div className="markdown-content">
+          <ReactMarkdown
+            remarkPlugins={[remarkGfm]}
+            rehypePlugins={safeRehypePlugins}
+            components={{
+              code: ({ node, inline, className, children, ...props }) => {
+                const match = /language-(\w+)/.exec(className || '')
+                return !inline && match ? (
+                  <pre className="bg-muted p-3 rounded-md overflow-x-auto my-2">
+                    <code className={className} {...props}>
+                      {children}
+                    </code>
+                  </pre>
+                ) : (
+                  <code className="bg-muted px-1 py-0.5 rounded text-sm font-mono" {...props}>
+                    {children}
+                  </code>
+                )
+              },
+            }}
+          >
+            {content}
+          </ReactMarkdown>
+        </div>
+      ) : (
+        <p className="text-muted-foreground italic">Nothing to preview</p>
+      )}
+    </div>
+  )
+}
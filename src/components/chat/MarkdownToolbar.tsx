@@ -0,0 +1,125 @@
+import type { RefObject } from 'react'
+import {
+  Code,
+  Bold,
+  Italic,
+  List,
+  Eye,
+  EyeOff
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface MarkdownToolbarProps {
+  textareaRef: RefObject<HTMLTextAreaElement | null>
+  value: string
+  onChange: (value: string) => void
+  isPreviewMode: boolean
+  onTogglePreview: () => void
+}
+
+export function MarkdownToolbar({ textareaRef, value, onChange, isPreviewMode, onTogglePreview }: MarkdownToolbarProps) {
+  const insertMarkdown = (syntax: string, placeholder: string = '') => {
+    if (!textareaRef.current) return
+
+    const textarea = textareaRef.current
+    const start = textarea.selectionStart
+    const end = textarea.selectionEnd
+    const selectedText = value.substring(start, end)
+
+    let newText = ''
+    let cursorPos = start
+
+    switch (syntax) {
+      case 'bold':
+        newText = `**${selectedText || placeholder}**`
+        cursorPos = start + 2 + (selectedText || placeholder).length
+        break
+      case 'italic':
+        newText = `*${selectedText || placeholder}*`
+        cursorPos = start + 1 + (selectedText || placeholder).length
+        break
+      case 'code':
+        if (selectedText.includes('\n')) {
+          newText = `\`\`\`\n${selectedText || placeholder}\n\`\`\``
+          cursorPos = start + 4 + (selectedText || placeholder).length
+        } else {
+          newText = `\`${selectedText || placeholder}\``
+          cursorPos = start + 1 + (selectedText || placeholder).length
+        }
+        break
+      case 'list':
+        newText = `- ${selectedText || placeholder}`
+        cursorPos = start + 2 + (selectedText || placeholder).length
+        break
+      default:
+        return
+    }
+
+    const newValue = value.substring(0, start) + newText + value.substring(end)
+    onChange(newValue)
+
+    // Set cursor position after state update
+    setTimeout(() => {
+      textarea.focus()
+      textarea.setSelectionRange(cursorPos, cursorPos)
+    }, 0)
+  }
+
+  return (
+    <div className="flex items-center space-x-1 p-2 bg-muted rounded-md">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => insertMarkdown('bold', 'bold text')}
+        className="h-7 w-7 p-0"
+      >
+        <Bold className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => insertMarkdown('italic', 'italic text')}
+        className="h-7 w-7 p-0"
+      >
+        <Italic className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => insertMarkdown('code', 'code')}
+        className="h-7 w-7 p-0"
+      >
+        <Code className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => insertMarkdown('list', 'list item')}
+        className="h-7 w-7 p-0"
+      >
+        <List className="h-3 w-3" />
+      </Button>
+
+      <div className="flex-1" />
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onTogglePreview}
+        className="h-7 px-2"
+      >
+        {isPreviewMode ? (
+          <>
+            <EyeOff className="h-3 w-3 mr-1" />
+            Edit
+          </>
+        ) : (
+          <>
+            <Eye className="h-3 w-3 mr-1" />
+            Preview
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
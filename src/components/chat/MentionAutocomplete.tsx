@@ -0,0 +1,78 @@
+import { AtSign } from 'lucide-react'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import {
+  Command,
+  CommandGroup,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command'
+
+export interface MentionCandidate {
+  id: string
+  label: string
+  description?: string
+  avatarUrl?: string
+  initials?: string
+  isSpecial?: boolean
+}
+
+interface MentionAutocompleteProps {
+  candidates: MentionCandidate[]
+  selectedId: string
+  onSelectedChange: (id: string) => void
+  onSelect: (candidate: MentionCandidate) => void
+}
+
+// Keyboard navigation stays in the textarea (see MessageInput); this list
+// only mirrors the selection and handles mouse picks
+export function MentionAutocomplete({ candidates, selectedId, onSelectedChange, onSelect }: MentionAutocompleteProps) {
+  const people = candidates.filter(candidate => !candidate.isSpecial)
+  const special = candidates.filter(candidate => candidate.isSpecial)
+
+  const renderItem = (candidate: MentionCandidate) => (
+    <CommandItem
+      key={candidate.id}
+      value={candidate.id}
+      onMouseDown={(e) => e.preventDefault()}
+      onSelect={() => onSelect(candidate)}
+    >
+      {candidate.isSpecial ? (
+        <div className="h-5 w-5 flex items-center justify-center rounded bg-muted">
+          <AtSign className="h-3 w-3" />
+        </div>
+      ) : (
+        <Avatar className="h-5 w-5">
+          <AvatarImage src={candidate.avatarUrl} />
+          <AvatarFallback className="bg-slack-green text-white text-[10px]">
+            {candidate.initials}
+          </AvatarFallback>
+        </Avatar>
+      )}
+      <span className="font-medium truncate">
+        {candidate.isSpecial ? `@${candidate.label}` : candidate.label}
+      </span>
+      {candidate.description && (
+        <span className="text-xs text-muted-foreground truncate">{candidate.description}</span>
+      )}
+    </CommandItem>
+  )
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-80 border border-border rounded-md shadow-md z-20 bg-popover">
+      <Command value={selectedId} onValueChange={onSelectedChange} shouldFilter={false}>
+        <CommandList>
+          {people.length > 0 && (
+            <CommandGroup heading="People">
+              {people.map(renderItem)}
+            </CommandGroup>
+          )}
+          {special.length > 0 && (
+            <CommandGroup heading="Notify">
+              {special.map(renderItem)}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </Command>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { ProfileHoverCard } from '@/components/chat/ProfileHoverCard'
+import { useProfile, getDisplayName } from '@/hooks/use-profiles'
+
+interface MentionPillProps {
+  target: string
+  currentUserId: string
+}
+
+const pillClassName = (isHighlighted: boolean) => `px-1 rounded font-medium ${
+  isHighlighted
+    ? 'bg-amber-200 text-amber-900 dark:bg-amber-700/60 dark:text-amber-100'
+    : 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+}`
+
+export function MentionPill({ target, currentUserId }: MentionPillProps) {
+  const isBroadcast = target === 'channel' || target === 'here'
+  const profile = useProfile(isBroadcast ? null : target)
+
+  if (isBroadcast) {
+    return <span className={pillClassName(true)}>@{target}</span>
+  }
+
+  return (
+    <ProfileHoverCard userId={target}>
+      <span className={pillClassName(target === currentUserId)}>
+        @{getDisplayName(target, profile)}
+      </span>
+    </ProfileHoverCard>
+  )
+}
@@ -0,0 +1,52 @@
+import { FileText, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { Message } from '@/blink/types'
+import { formatFileSize } from '@/lib/utils'
+
+interface MessageAttachmentProps {
+  message: Message
+}
+
+export function MessageAttachment({ message }: MessageAttachmentProps) {
+  if (!message.attachmentUrl) return null
+
+  const fileName = message.attachmentName || 'Attachment'
+
+  if (message.messageType === 'image') {
+    return (
+      <a
+        href={message.attachmentUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block mt-2 w-fit"
+      >
+        <img
+          src={message.attachmentUrl}
+          alt={fileName}
+          loading="lazy"
+          className="max-h-80 max-w-full rounded-md border border-border object-contain"
+        />
+      </a>
+    )
+  }
+
+  return (
+    <div className="mt-2 flex items-center space-x-3 w-full max-w-sm p-3 border border-border rounded-md bg-muted/30">
+      <div className="p-2 bg-slack-purple rounded-md">
+        <FileText className="h-5 w-5 text-white" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-foreground truncate">{fileName}</p>
+        <p className="text-xs text-muted-foreground">
+          {message.attachmentSize !== undefined ? formatFileSize(message.attachmentSize) : 'File'}
+          {message.attachmentMimeType && ` · ${message.attachmentMimeType}`}
+        </p>
+      </div>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" asChild>
+        <a href={message.attachmentUrl} target="_blank" rel="noopener noreferrer" download={fileName}>
+          <Download className="h-4 w-4" />
+        </a>
+      </Button>
+    </div>
+  )
+}
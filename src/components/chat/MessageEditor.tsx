@@ -0,0 +1,97 @@
+import React, { useState, useRef, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { MarkdownToolbar } from '@/components/chat/MarkdownToolbar'
+import { MarkdownPreview } from '@/components/chat/MarkdownPreview'
+
+interface MessageEditorProps {
+  initialContent: string
+  isSaving: boolean
+  onSave: (content: string) => void
+  onCancel: () => void
+}
+
+export function MessageEditor({ initialContent, isSaving, onSave, onCancel }: MessageEditorProps) {
+  const [content, setContent] = useState(initialContent)
+  const [isPreviewMode, setIsPreviewMode] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  // Focus the editor with the cursor at the end
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length)
+  }, [])
+
+  // Auto-resize textarea
+  useEffect(() => {
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto'
+      textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`
+    }
+  }, [content])
+
+  const canSave = content.trim() !== '' && content.trim() !== initialContent.trim() && !isSaving
+
+  const handleSave = () => {
+    if (!canSave) return
+    onSave(content.trim())
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSave()
+    }
+
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onCancel()
+    }
+  }
+
+  return (
+    <div className="space-y-2 mt-1">
+      <MarkdownToolbar
+        textareaRef={textareaRef}
+        value={content}
+        onChange={setContent}
+        isPreviewMode={isPreviewMode}
+        onTogglePreview={() => setIsPreviewMode(!isPreviewMode)}
+      />
+
+      {isPreviewMode ? (
+        <MarkdownPreview content={content} />
+      ) : (
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="resize-none min-h-[60px] max-h-[300px]"
+          rows={2}
+        />
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Enter to save, Esc to cancel
+        </p>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={!canSave}
+            className="bg-slack-green hover:bg-slack-active"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,39 +1,169 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useImperativeHandle } from 'react'
+import type { Ref } from 'react'
 import { 
   Send, 
   Paperclip, 
-  Smile, 
-  Code, 
-  Bold, 
-  Italic, 
-  List,
-  Eye,
-  EyeOff
+  Smile,
+  FileText,
+  X
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import rehypeHighlight from 'rehype-highlight'
+import { Progress } from '@/components/ui/progress'
+import { MarkdownToolbar } from '@/components/chat/MarkdownToolbar'
+import { MarkdownPreview } from '@/components/chat/MarkdownPreview'
+import { EmojiPicker } from '@/components/chat/EmojiPicker'
+import { MentionAutocomplete } from '@/components/chat/MentionAutocomplete'
+import type { MentionCandidate } from '@/components/chat/MentionAutocomplete'
+import { SlashCommandAutocomplete } from '@/components/chat/SlashCommandAutocomplete'
+import { blink } from '@/blink/client'
+import { createId } from '@/blink/db'
+import type { Attachment, User } from '@/blink/types'
+import { useToast } from '@/hooks/use-toast'
+import { useProfiles, getDisplayName, getInitials } from '@/hooks/use-profiles'
+import { useWorkspaceMembers } from '@/hooks/use-workspace-store'
+import { getDraft, saveDraft, clearDraft } from '@/hooks/use-drafts'
+import type { DraftLocation } from '@/hooks/use-drafts'
+import { useLatestRef } from '@/hooks/use-latest-ref'
+import { useSlashCommands } from '@/hooks/use-slash-commands'
+import { formatFileSize } from '@/lib/utils'
+import { SPECIAL_MENTIONS, encodeMentions } from '@/lib/mentions'
+import type { PickedMention } from '@/lib/mentions'
+import { SlashCommandError, parseSlashCommand, getCommandQuery } from '@/lib/slash-commands'
+import type { SlashCommand, SlashCommandHost } from '@/lib/slash-commands'
 
-interface User {
+interface PendingUpload {
   id: string
-  email: string
-  displayName?: string
+  name: string
+  size: number
+  progress: number
+  attachment?: Attachment
+}
+
+export interface MessageInputHandle {
+  addFiles: (files: File[]) => void
 }
 
 interface MessageInputProps {
-  onSendMessage: (content: string, messageType?: string) => void
+  onSendMessage: (content: string, messageType?: string, attachment?: Attachment) => void
   placeholder?: string
   user: User
+  groupId?: string | null
+  // Called on every edit with whether there's anything typed, to drive typing indicators
+  onTyping?: (isTyping: boolean) => void
+  // Keeps unsent text as a draft for this channel or thread. Render with a
+  // key per conversation, since the draft is only read on mount.
+  draft?: DraftLocation
+  // Enables `/` commands, run in this conversation
+  commandHost?: SlashCommandHost
+  ref?: Ref<MessageInputHandle>
 }
 
-export function MessageInput({ onSendMessage, placeholder = "Type a message...", user }: MessageInputProps) {
-  const [message, setMessage] = useState('')
+const MAX_FILE_SIZE = 25 * 1024 * 1024 // 25 MB
+const MAX_MENTION_SUGGESTIONS = 8
+// Typing pauses this long before the draft is saved
+const DRAFT_SAVE_DELAY = 500
+
+export function MessageInput({ onSendMessage, placeholder = "Type a message...", user, groupId, onTyping, draft, commandHost, ref }: MessageInputProps) {
+  const [message, setMessage] = useState(() => draft ? getDraft(draft.channelId, draft.threadId)?.content ?? '' : '')
   const [isPreviewMode, setIsPreviewMode] = useState(false)
   const [isExpanded, setIsExpanded] = useState(false)
+  const [uploads, setUploads] = useState<PendingUpload[]>([])
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null)
+  const [selectedMentionId, setSelectedMentionId] = useState('')
+  const [pickedMentions, setPickedMentions] = useState<PickedMention[]>(() =>
+    draft ? getDraft(draft.channelId, draft.threadId)?.mentions ?? [] : []
+  )
+  const [draftChannelId, setDraftChannelId] = useState(draft?.channelId)
+  const [commandQuery, setCommandQuery] = useState<string | null>(null)
+  const [selectedCommandName, setSelectedCommandName] = useState('')
+  const [isRunningCommand, setIsRunningCommand] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const saveDraftRef = useRef<(() => void) | null>(null)
+
+  // The location can arrive after mount, e.g. while channels are still loading
+  if (draft && draft.channelId !== draftChannelId) {
+    setDraftChannelId(draft.channelId)
+    const saved = getDraft(draft.channelId, draft.threadId)
+    if (saved && !message) {
+      setMessage(saved.content)
+      setPickedMentions(saved.mentions)
+    }
+  }
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+  const members = useWorkspaceMembers(groupId)
+  const profiles = useProfiles(members.map(member => member.userId))
+  const slashCommands = useSlashCommands()
+
+  const isUploading = uploads.some(upload => !upload.attachment)
+  const completedUploads = uploads.filter(upload => upload.attachment)
+  const canSend = !isUploading && !isRunningCommand && (message.trim() !== '' || completedUploads.length > 0)
+
+  // Commands this conversation can run, and the ones matching the `/name` being typed
+  const availableCommands = commandHost
+    ? slashCommands.filter(command => !command.isAvailable || command.isAvailable(commandHost))
+    : []
+  const commandCandidates = commandQuery !== null
+    ? availableCommands.filter(command => command.name.startsWith(commandQuery))
+    : []
+  const activeCommandName = commandCandidates.some(command => command.name === selectedCommandName)
+    ? selectedCommandName
+    : commandCandidates[0]?.name ?? ''
+  // Once a command name is complete, its arguments are hinted below the input
+  const typedCommandName = parseSlashCommand(message)?.name
+  const typedCommand = availableCommands.find(command => command.name === typedCommandName)
+
+  // Mention suggestions for the `@query` being typed at the cursor
+  const mentionCandidates: MentionCandidate[] = []
+  if (mentionQuery) {
+    const query = mentionQuery.query.toLowerCase()
+    const people = members
+      .map(member => {
+        const profile = profiles[member.userId]
+        return {
+          id: member.userId,
+          label: getDisplayName(member.userId, profile),
+          description: profile?.title,
+          avatarUrl: profile?.avatarUrl,
+          initials: getInitials(member.userId, profile),
+          email: profile?.email
+        }
+      })
+      .filter(candidate =>
+        candidate.label.toLowerCase().includes(query) ||
+        candidate.email?.toLowerCase().startsWith(query)
+      )
+      .slice(0, MAX_MENTION_SUGGESTIONS)
+
+    mentionCandidates.push(...people)
+    mentionCandidates.push(...SPECIAL_MENTIONS
+      .filter(special => special.id.startsWith(query))
+      .map(special => ({ id: special.id, label: special.id, description: special.description, isSpecial: true }))
+    )
+  }
+  const activeMentionId = mentionCandidates.some(candidate => candidate.id === selectedMentionId)
+    ? selectedMentionId
+    : mentionCandidates[0]?.id ?? ''
+
+  // The location can arrive after mount or change, e.g. when the channel is
+  // renamed; saves use the latest one without restarting the timer
+  const draftRef = useLatestRef(draft)
+
+  // Save the draft once typing pauses, and right away when leaving the conversation
+  useEffect(() => {
+    if (!draftRef.current) return
+
+    const save = () => {
+      saveDraftRef.current = null
+      if (draftRef.current) saveDraft(draftRef.current, message, pickedMentions)
+    }
+    saveDraftRef.current = save
+    const timeout = setTimeout(save, DRAFT_SAVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [message, pickedMentions, draftRef])
+
+  useEffect(() => () => saveDraftRef.current?.(), [])
 
   // Auto-resize textarea
   useEffect(() => {
@@ -43,16 +173,190 @@ export function MessageInput({ onSendMessage, placeholder = "Type a message...",
     }
   }, [message])
 
-  const handleSend = () => {
-    if (!message.trim()) return
-    
-    onSendMessage(message.trim())
+  const resetComposer = () => {
     setMessage('')
+    if (draft) clearDraft(draft.channelId, draft.threadId)
+    setUploads([])
+    setPickedMentions([])
+    setMentionQuery(null)
+    setCommandQuery(null)
     setIsPreviewMode(false)
     setIsExpanded(false)
   }
 
+  const focusAt = (cursorPos: number) => {
+    // Set cursor position after state update
+    setTimeout(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(cursorPos, cursorPos)
+    }, 0)
+  }
+
+  // Run a command in place of sending. Usage problems are shown to the user
+  // and leave their text in the composer to fix.
+  const runCommand = async (command: SlashCommand, args: string) => {
+    if (!commandHost) return
+
+    setIsRunningCommand(true)
+    setCommandQuery(null)
+    setMentionQuery(null)
+    try {
+      const result = await command.run({ ...commandHost, user, args: encodeMentions(args, pickedMentions) })
+
+      if (result?.type === 'compose') {
+        setMessage(result.content)
+        setPickedMentions([])
+        focusAt(result.cursor ?? result.content.length)
+        return
+      }
+      if (result?.type === 'send') {
+        onSendMessage(result.content)
+      }
+      if (result?.type === 'confirm') {
+        toast({ title: `/${command.name}`, description: result.message })
+      }
+      resetComposer()
+    } catch (error) {
+      if (error instanceof SlashCommandError) {
+        toast({ title: `/${command.name}`, description: error.message, variant: 'destructive' })
+        return
+      }
+      console.error('Error running command:', error)
+      toast({
+        title: 'Error',
+        description: `/${command.name} failed. Please try again.`,
+        variant: 'destructive'
+      })
+    } finally {
+      setIsRunningCommand(false)
+    }
+  }
+
+  const handleSend = () => {
+    if (!canSend) return
+
+    // A leading `//` sends the text as typed, minus one slash
+    let text = message.trim()
+    if (commandHost && completedUploads.length === 0) {
+      const parsed = parseSlashCommand(text)
+      if (parsed) {
+        const command = availableCommands.find(available => available.name === parsed.name)
+        if (command) {
+          runCommand(command, parsed.args)
+        } else {
+          toast({
+            title: 'Unknown command',
+            description: `/${parsed.name} isn't a command here. Start with // to send it as a message.`,
+            variant: 'destructive'
+          })
+        }
+        return
+      }
+      text = text.replace(/^\/\//, '/')
+    }
+
+    if (completedUploads.length > 0) {
+      // One message per file; the typed text becomes the first file's caption
+      completedUploads.forEach((upload, index) => {
+        const attachment = upload.attachment!
+        const messageType = attachment.mimeType.startsWith('image/') ? 'image' : 'file'
+        onSendMessage(index === 0 ? encodeMentions(text, pickedMentions) : '', messageType, attachment)
+      })
+    } else {
+      onSendMessage(encodeMentions(text, pickedMentions))
+    }
+    resetComposer()
+  }
+
+  const updateMentionQuery = (value: string, cursor: number) => {
+    const match = /(^|\s)@([^\s@]*)$/.exec(value.slice(0, cursor))
+    setMentionQuery(match ? { start: cursor - match[2].length - 1, query: match[2] } : null)
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setMessage(e.target.value)
+    updateMentionQuery(e.target.value, e.target.selectionStart)
+    setCommandQuery(commandHost ? getCommandQuery(e.target.value, e.target.selectionStart) : null)
+    onTyping?.(e.target.value.trim() !== '')
+  }
+
+  const selectMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return
+
+    const end = textareaRef.current?.selectionStart ?? message.length
+    const inserted = `@${candidate.label} `
+    const cursorPos = mentionQuery.start + inserted.length
+
+    setMessage(message.substring(0, mentionQuery.start) + inserted + message.substring(end))
+    if (!candidate.isSpecial) {
+      setPickedMentions(prev => prev.some(mention => mention.userId === candidate.id)
+        ? prev
+        : [...prev, { userId: candidate.id, label: candidate.label }]
+      )
+    }
+    setMentionQuery(null)
+
+    focusAt(cursorPos)
+  }
+
+  // Complete the command name and move on to its arguments
+  const selectCommand = (command: SlashCommand) => {
+    const inserted = `/${command.name} `
+    setMessage(inserted + message.replace(/^\/\S*\s*/, ''))
+    setCommandQuery(null)
+    focusAt(inserted.length)
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (commandCandidates.length > 0) {
+      const index = commandCandidates.findIndex(command => command.name === activeCommandName)
+
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const offset = e.key === 'ArrowDown' ? 1 : -1
+        const nextIndex = (index + offset + commandCandidates.length) % commandCandidates.length
+        setSelectedCommandName(commandCandidates[nextIndex].name)
+        return
+      }
+
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        selectCommand(commandCandidates[index])
+        return
+      }
+
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setCommandQuery(null)
+        return
+      }
+    }
+
+    // While suggestions are open the arrow, Enter, Tab and Escape keys drive them
+    if (mentionCandidates.length > 0) {
+      const index = mentionCandidates.findIndex(candidate => candidate.id === activeMentionId)
+
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const offset = e.key === 'ArrowDown' ? 1 : -1
+        const nextIndex = (index + offset + mentionCandidates.length) % mentionCandidates.length
+        setSelectedMentionId(mentionCandidates[nextIndex].id)
+        return
+      }
+
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        selectMention(mentionCandidates[index])
+        return
+      }
+
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setMentionQuery(null)
+        return
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSend()
@@ -63,165 +367,170 @@ export function MessageInput({ onSendMessage, placeholder = "Type a message...",
     }
   }
 
-  const insertMarkdown = (syntax: string, placeholder: string = '') => {
-    if (!textareaRef.current) return
+  const uploadFile = async (file: File) => {
+    if (file.size > MAX_FILE_SIZE) {
+      toast({
+        title: 'File too large',
+        description: `${file.name} is larger than ${formatFileSize(MAX_FILE_SIZE)}.`,
+        variant: 'destructive'
+      })
+      return
+    }
 
-    const textarea = textareaRef.current
-    const start = textarea.selectionStart
-    const end = textarea.selectionEnd
-    const selectedText = message.substring(start, end)
-    
-    let newText = ''
-    let cursorPos = start
-
-    switch (syntax) {
-      case 'bold':
-        newText = `**${selectedText || placeholder}**`
-        cursorPos = start + 2 + (selectedText || placeholder).length
-        break
-      case 'italic':
-        newText = `*${selectedText || placeholder}*`
-        cursorPos = start + 1 + (selectedText || placeholder).length
-        break
-      case 'code':
-        if (selectedText.includes('\n')) {
-          newText = `\`\`\`\n${selectedText || placeholder}\n\`\`\``
-          cursorPos = start + 4 + (selectedText || placeholder).length
-        } else {
-          newText = `\`${selectedText || placeholder}\``
-          cursorPos = start + 1 + (selectedText || placeholder).length
+    const id = createId('upload')
+    setUploads(prev => [...prev, { id, name: file.name, size: file.size, progress: 0 }])
+
+    try {
+      const safeName = file.name.replace(/[^\w.-]/g, '_')
+      const { publicUrl } = await blink.storage.upload(
+        file,
+        `attachments/${user.id}/${id}/${safeName}`,
+        {
+          upsert: true,
+          onProgress: (percent) => {
+            setUploads(prev => prev.map(upload => upload.id === id ? { ...upload, progress: percent } : upload))
+          }
         }
-        break
-      case 'list':
-        newText = `- ${selectedText || placeholder}`
-        cursorPos = start + 2 + (selectedText || placeholder).length
-        break
-      default:
-        return
+      )
+
+      setUploads(prev => prev.map(upload => upload.id === id ? {
+        ...upload,
+        progress: 100,
+        attachment: {
+          url: publicUrl,
+          name: file.name,
+          size: file.size,
+          mimeType: file.type || 'application/octet-stream'
+        }
+      } : upload))
+    } catch (error) {
+      console.error('Error uploading file:', error)
+      setUploads(prev => prev.filter(upload => upload.id !== id))
+      toast({
+        title: 'Upload failed',
+        description: `Failed to upload ${file.name}. Please try again.`,
+        variant: 'destructive'
+      })
     }
+  }
 
-    const newMessage = message.substring(0, start) + newText + message.substring(end)
-    setMessage(newMessage)
-    
-    // Set cursor position after state update
-    setTimeout(() => {
-      textarea.focus()
-      textarea.setSelectionRange(cursorPos, cursorPos)
-    }, 0)
+  const addFiles = (files: File[]) => {
+    files.forEach(uploadFile)
   }
 
+  // Let the chat area hand over files dropped onto it
+  useImperativeHandle(ref, () => ({ addFiles }))
+
   const handleFileUpload = () => {
-    // TODO: Implement file upload
-    console.log('File upload clicked')
+    fileInputRef.current?.click()
   }
 
-  const handleEmojiPicker = () => {
-    // TODO: Implement emoji picker
-    console.log('Emoji picker clicked')
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []))
+    e.target.value = ''
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
+
+    e.preventDefault()
+    addFiles(files)
+  }
+
+  const removeUpload = (id: string) => {
+    setUploads(prev => prev.filter(upload => upload.id !== id))
+  }
+
+  const handleEmojiSelect = (emoji: string) => {
+    const textarea = textareaRef.current
+    const start = textarea?.selectionStart ?? message.length
+    const end = textarea?.selectionEnd ?? message.length
+    const cursorPos = start + emoji.length
+
+    setMessage(message.substring(0, start) + emoji + message.substring(end))
+
+    focusAt(cursorPos)
   }
 
   return (
     <div className="space-y-2">
       {/* Formatting Toolbar (shown when expanded) */}
       {isExpanded && (
-        <div className="flex items-center space-x-1 p-2 bg-muted rounded-md">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => insertMarkdown('bold', 'bold text')}
-            className="h-7 w-7 p-0"
-          >
-            <Bold className="h-3 w-3" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => insertMarkdown('italic', 'italic text')}
-            className="h-7 w-7 p-0"
-          >
-            <Italic className="h-3 w-3" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => insertMarkdown('code', 'code')}
-            className="h-7 w-7 p-0"
-          >
-            <Code className="h-3 w-3" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => insertMarkdown('list', 'list item')}
-            className="h-7 w-7 p-0"
-          >
-            <List className="h-3 w-3" />
-          </Button>
-          
-          <div className="flex-1" />
-          
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setIsPreviewMode(!isPreviewMode)}
-            className="h-7 px-2"
-          >
-            {isPreviewMode ? (
-              <>
-                <EyeOff className="h-3 w-3 mr-1" />
-                Edit
-              </>
-            ) : (
-              <>
-                <Eye className="h-3 w-3 mr-1" />
-                Preview
-              </>
-            )}
-          </Button>
+        <MarkdownToolbar
+          textareaRef={textareaRef}
+          value={message}
+          onChange={setMessage}
+          isPreviewMode={isPreviewMode}
+          onTogglePreview={() => setIsPreviewMode(!isPreviewMode)}
+        />
+      )}
+
+      {/* Pending Attachments */}
+      {uploads.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {uploads.map((upload) => (
+            <div
+              key={upload.id}
+              className="flex items-center space-x-2 w-56 p-2 border border-border rounded-md bg-muted/30"
+            >
+              <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium truncate">{upload.name}</p>
+                {upload.attachment ? (
+                  <p className="text-xs text-muted-foreground">{formatFileSize(upload.size)}</p>
+                ) : (
+                  <Progress value={upload.progress} className="h-1 mt-1" />
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeUpload(upload.id)}
+                className="h-5 w-5 p-0"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
         </div>
       )}
 
       {/* Message Input Area */}
       <div className="relative">
+        {commandCandidates.length > 0 && !(isExpanded && isPreviewMode) && (
+          <SlashCommandAutocomplete
+            commands={commandCandidates}
+            selectedName={activeCommandName}
+            onSelectedChange={setSelectedCommandName}
+            onSelect={selectCommand}
+          />
+        )}
+
+        {mentionCandidates.length > 0 && !(isExpanded && isPreviewMode) && (
+          <MentionAutocomplete
+            candidates={mentionCandidates}
+            selectedId={activeMentionId}
+            onSelectedChange={setSelectedMentionId}
+            onSelect={selectMention}
+          />
+        )}
+
         {isExpanded && isPreviewMode ? (
           // Preview Mode
-          <div className="min-h-[100px] max-h-[300px] overflow-y-auto p-3 border border-border rounded-md bg-background">
-            {message.trim() ? (
-              <div className="markdown-content">
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  rehypePlugins={[rehypeHighlight]}
-                  components={{
-                    code: ({ node, inline, className, children, ...props }) => {
-                      const match = /language-(\w+)/.exec(className || '')
-                      return !inline && match ? (
-                        <pre className="bg-muted p-3 rounded-md overflow-x-auto my-2">
-                          <code className={className} {...props}>
-                            {children}
-                          </code>
-                        </pre>
-                      ) : (
-                        <code className="bg-muted px-1 py-0.5 rounded text-sm font-mono" {...props}>
-                          {children}
-                        </code>
-                      )
-                    },
-                  }}
-                >
-                  {message}
-                </ReactMarkdown>
-              </div>
-            ) : (
-              <p className="text-muted-foreground italic">Nothing to preview</p>
-            )}
-          </div>
+          <MarkdownPreview content={message} />
         ) : (
           // Edit Mode
           <Textarea
             ref={textareaRef}
             value={message}
-            onChange={(e) => setMessage(e.target.value)}
+            onChange={handleChange}
             onKeyDown={handleKeyDown}
+            onBlur={() => {
+              setMentionQuery(null)
+              setCommandQuery(null)
+            }}
+            onPaste={handlePaste}
             onFocus={() => setIsExpanded(true)}
             placeholder={placeholder}
             className={`resize-none ${isExpanded ? 'min-h-[100px] max-h-[300px]' : 'min-h-[44px] max-h-[120px]'} pr-20`}
@@ -229,6 +538,14 @@ export function MessageInput({ onSendMessage, placeholder = "Type a message...",
           />
         )}
 
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFileInputChange}
+        />
+
         {/* Action Buttons */}
         <div className="absolute bottom-2 right-2 flex items-center space-x-1">
           {!isExpanded && (
@@ -241,20 +558,21 @@ export function MessageInput({ onSendMessage, placeholder = "Type a message...",
               >
                 <Paperclip className="h-3 w-3" />
               </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleEmojiPicker}
-                className="h-7 w-7 p-0"
-              >
-                <Smile className="h-3 w-3" />
-              </Button>
+              <EmojiPicker onSelect={handleEmojiSelect}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                >
+                  <Smile className="h-3 w-3" />
+                </Button>
+              </EmojiPicker>
             </>
           )}
           
           <Button
             onClick={handleSend}
-            disabled={!message.trim()}
+            disabled={!canSend}
             size="sm"
             className="h-7 w-7 p-0 bg-slack-green hover:bg-slack-active"
           >
@@ -263,8 +581,17 @@ export function MessageInput({ onSendMessage, placeholder = "Type a message...",
         </div>
       </div>
 
+      {/* Command Arguments */}
+      {typedCommand && commandCandidates.length === 0 && (
+        <div className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">/{typedCommand.name}</span>
+          {typedCommand.argsHint && <span className="font-mono"> {typedCommand.argsHint}</span>}
+          <span> · {isRunningCommand ? 'Running…' : typedCommand.description}</span>
+        </div>
+      )}
+
       {/* Markdown Help */}
-      {isExpanded && (
+      {isExpanded && !typedCommand && (
         <div className="text-xs text-muted-foreground">
           <span className="font-medium">Markdown supported:</span> **bold**, *italic*, `code`, ```code blocks```, - lists, {'>'}quotes, [links](url)
         </div>
@@ -1,9 +1,6 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
 import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import rehypeHighlight from 'rehype-highlight'
-import rehypeRaw from 'rehype-raw'
-import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import { 
   MoreHorizontal, 
@@ -11,7 +8,12 @@ import {
   Smile, 
   Edit, 
   Trash2,
-  Copy
+  Copy,
+  History,
+  Pin,
+  PinOff,
+  Link,
+  AlertCircle
 } from 'lucide-react'
 import {
   DropdownMenu,
@@ -29,81 +31,173 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { formatDistanceToNow } from 'date-fns'
-import { blink } from '@/blink/client'
+import { MessageEditor } from '@/components/chat/MessageEditor'
+import { MessageReactions } from '@/components/chat/MessageReactions'
+import { EmojiPicker } from '@/components/chat/EmojiPicker'
+import { MessageAttachment } from '@/components/chat/MessageAttachment'
+import { ProfileHoverCard } from '@/components/chat/ProfileHoverCard'
+import { PresenceDot } from '@/components/chat/PresenceDot'
+import { MentionPill } from '@/components/chat/MentionPill'
+import { MessageHistoryDialog } from '@/components/dialogs/MessageHistoryDialog'
+import { formatDistanceToNow, format } from 'date-fns'
+import { db } from '@/blink/db'
+import { deleteMessage } from '@/blink/messages'
+import { publishChannelEvent } from '@/blink/realtime'
+import type { Message, Reaction, User } from '@/blink/types'
 import { useToast } from '@/hooks/use-toast'
+import { useProfile, useProfiles, getDisplayName, getInitials } from '@/hooks/use-profiles'
+import { retryMessage, discardMessage } from '@/hooks/use-outbox'
+import type { DeliveryStatus } from '@/hooks/use-outbox'
+import { getMessageLink } from '@/lib/routes'
+import { getCustomStatus } from '@/lib/presence'
+import { messageRehypePlugins, messageRemarkPlugins } from '@/lib/markdown'
+import { rehypeSearchMatches } from '@/lib/search'
+import {
+  extractMentions,
+  encodeMentions,
+  serializeMentions,
+  mentionsToText,
+  isUserMentioned
+} from '@/lib/mentions'
 
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
+// Text, image and file messages all share the markdown body; attachments render below it
+const MARKDOWN_MESSAGE_TYPES = ['text', 'image', 'file']
 
-interface Message {
-  id: string
-  channelId: string
-  userId: string
-  content: string
-  messageType: string
-  threadId?: string
-  replyCount: number
-  createdAt: string
-  updatedAt: string
-}
+const NO_NEEDLES: string[] = []
 
 interface MessageItemProps {
   message: Message
   currentUser: User
+  // Workspace the message belongs to, needed to build a link to it
+  groupId?: string
   showAvatar: boolean
-  searchQuery?: string
+  reactions?: Reaction[]
+  // Words to highlight, and which of this message's highlights is the current match
+  searchNeedles?: string[]
+  activeMatchIndex?: number | null
+  // Set while the message is still in the outbox
+  deliveryStatus?: DeliveryStatus
+  isHighlighted?: boolean
+  isPinned?: boolean
   onMessageDeleted?: (messageId: string) => void
+  onMessageUpdated?: (message: Message) => void
+  onReply?: (message: Message) => void
+  onToggleReaction?: (message: Message, emoji: string) => void
+  onTogglePin?: (message: Message) => void
+  canDeleteAnyMessage?: boolean
 }
 
-export function MessageItem({ message, currentUser, showAvatar, searchQuery = '', onMessageDeleted }: MessageItemProps) {
+export function MessageItem({ message, currentUser, groupId, showAvatar, reactions = [], searchNeedles = NO_NEEDLES, activeMatchIndex = null, deliveryStatus, isHighlighted = false, isPinned = false, onMessageDeleted, onMessageUpdated, onReply, onToggleReaction, onTogglePin, canDeleteAnyMessage = false }: MessageItemProps) {
   const [isHovered, setIsHovered] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false)
+  const [isReactionPickerOpen, setIsReactionPickerOpen] = useState(false)
+  const contentRef = useRef<HTMLDivElement>(null)
   const { toast } = useToast()
+  const authorProfile = useProfile(message.userId)
+  const authorStatus = getCustomStatus(authorProfile)
+  const mentionedUserIds = extractMentions(message.content)
+    .flatMap(mention => mention.type === 'user' ? [mention.userId] : [])
+  const mentionProfiles = useProfiles(mentionedUserIds)
   
   const isOwnMessage = message.userId === currentUser.id
+  const isPending = deliveryStatus !== undefined
+  const isMentioned = isUserMentioned(message.content, currentUser.id)
   const messageTime = new Date(message.createdAt)
   const timeAgo = formatDistanceToNow(messageTime, { addSuffix: true })
 
-  // Get user display info (in a real app, you'd fetch this from a users table)
-  const getUserDisplayName = (userId: string) => {
-    if (userId === currentUser.id) {
-      return currentUser.displayName || currentUser.email
-    }
-    return `User ${userId.slice(-4)}` // Fallback for demo
+  // Search matches are highlighted in the rendered text, never in the markdown source
+  const rehypePlugins = useMemo<typeof messageRehypePlugins>(() => searchNeedles.length > 0
+    ? [...messageRehypePlugins, [rehypeSearchMatches, { needles: searchNeedles, activeIndex: activeMatchIndex }]]
+    : messageRehypePlugins, [searchNeedles, activeMatchIndex])
+
+  // Bring the current match into view within long messages
+  useEffect(() => {
+    if (activeMatchIndex === null) return
+    contentRef.current?.querySelector('[data-search-match="active"]')?.scrollIntoView({ block: 'nearest' })
+  }, [activeMatchIndex])
+
+  const handleCopyMessage = () => {
+    navigator.clipboard.writeText(message.content)
   }
 
-  const getUserInitials = (userId: string) => {
-    if (userId === currentUser.id) {
-      return currentUser.displayName?.[0] || currentUser.email[0].toUpperCase()
+  const handleCopyLink = async () => {
+    if (!groupId) return
+
+    try {
+      await navigator.clipboard.writeText(getMessageLink(groupId, message.channelId, message.id))
+      toast({
+        title: 'Link copied',
+        description: 'Anyone in this channel can use it to jump to the message.'
+      })
+    } catch (error) {
+      console.error('Error copying message link:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to copy the link. Please try again.',
+        variant: 'destructive'
+      })
     }
-    return userId.slice(-2).toUpperCase()
   }
 
-  // Highlight search terms
-  const highlightSearchTerm = (text: string, searchTerm: string) => {
-    if (!searchTerm.trim()) return text
-    
-    const regex = new RegExp(`(${searchTerm})`, 'gi')
-    return text.replace(regex, '<mark class="bg-yellow-200 dark:bg-yellow-800">$1</mark>')
+  const handleReply = () => {
+    onReply?.(message)
   }
 
-  const handleCopyMessage = () => {
-    navigator.clipboard.writeText(message.content)
+  const handleToggleReaction = (emoji: string) => {
+    onToggleReaction?.(message, emoji)
   }
 
-  const handleReply = () => {
-    // TODO: Implement reply functionality
-    console.log('Reply to message:', message.id)
+  const handleEdit = () => {
+    setIsEditing(true)
   }
 
-  const handleEdit = () => {
-    // TODO: Implement edit functionality
-    console.log('Edit message:', message.id)
+  // The editor works on readable `@Name` text; existing mentions are turned
+  // back into tokens on save
+  const getMentionLabel = (userId: string) => getDisplayName(userId, mentionProfiles[userId])
+  const editableContent = mentionsToText(message.content, getMentionLabel)
+
+  const saveEdit = async (editedContent: string) => {
+    const content = encodeMentions(editedContent, mentionedUserIds.map(userId => ({
+      userId,
+      label: getMentionLabel(userId)
+    })))
+
+    setIsSaving(true)
+    try {
+      const editedAt = new Date().toISOString()
+
+      // Keep the replaced content so the edit history can be reviewed later
+      await db.messageRevisions.create({
+        messageId: message.id,
+        content: message.content,
+        editedBy: currentUser.id
+      })
+
+      await db.messages.update(message.id, {
+        content,
+        mentions: serializeMentions(content),
+        editedAt,
+        updatedAt: editedAt
+      })
+
+      const updatedMessage = { ...message, content, mentions: serializeMentions(content), editedAt, updatedAt: editedAt }
+      onMessageUpdated?.(updatedMessage)
+      publishChannelEvent(message.channelId, { type: 'message.updated', message: updatedMessage })
+      setIsEditing(false)
+    } catch (error) {
+      console.error('Error editing message:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to edit message. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const handleDelete = () => {
@@ -113,12 +207,13 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
   const confirmDelete = async () => {
     setIsDeleting(true)
     try {
-      await blink.db.messages.delete(message.id)
+      await deleteMessage(message.id)
       toast({
         title: 'Message deleted',
         description: 'The message has been deleted successfully.'
       })
       onMessageDeleted?.(message.id)
+      publishChannelEvent(message.channelId, { type: 'message.deleted', messageId: message.id })
       setShowDeleteDialog(false)
     } catch (error) {
       console.error('Error deleting message:', error)
@@ -134,8 +229,12 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
 
   return (
     <div
-      className={`group relative py-2 px-3 rounded-md hover:bg-muted/50 transition-colors ${
+      className={`group relative py-2 px-3 rounded-md transition-colors ${
         showAvatar ? 'mt-4' : 'mt-1'
+      } ${isHighlighted ? 'message-flash' : ''} ${
+        isMentioned
+          ? 'bg-amber-50 hover:bg-amber-100/70 border-l-2 border-amber-400 dark:bg-amber-900/20 dark:hover:bg-amber-900/30'
+          : 'hover:bg-muted/50'
       }`}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
@@ -144,11 +243,15 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
         {/* Avatar */}
         <div className="flex-shrink-0">
           {showAvatar ? (
-            <Avatar className="h-8 w-8">
-              <AvatarFallback className="bg-slack-green text-white text-xs">
-                {getUserInitials(message.userId)}
-              </AvatarFallback>
-            </Avatar>
+            <div className="relative">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={authorProfile?.avatarUrl} />
+                <AvatarFallback className="bg-slack-green text-white text-xs">
+                  {getInitials(message.userId, authorProfile)}
+                </AvatarFallback>
+              </Avatar>
+              <PresenceDot userId={message.userId} className="absolute -bottom-0.5 -right-0.5" />
+            </div>
           ) : (
             <div className="w-8 h-8 flex items-center justify-center">
               <span className="text-xs text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity">
@@ -160,12 +263,26 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
 
         {/* Message Content */}
         <div className="flex-1 min-w-0">
+          {isPinned && (
+            <div className="flex items-center space-x-1 text-xs text-muted-foreground mb-1">
+              <Pin className="h-3 w-3" />
+              <span>Pinned</span>
+            </div>
+          )}
+
           {/* Header */}
           {showAvatar && (
             <div className="flex items-center space-x-2 mb-1">
-              <span className="font-semibold text-sm text-foreground">
-                {getUserDisplayName(message.userId)}
-              </span>
+              <ProfileHoverCard userId={message.userId}>
+                <span className="font-semibold text-sm text-foreground">
+                  {getDisplayName(message.userId, authorProfile)}
+                </span>
+              </ProfileHoverCard>
+              {authorStatus && (
+                <span className="text-sm" title={authorStatus.text || undefined}>
+                  {authorStatus.emoji}
+                </span>
+              )}
               <span className="text-xs text-muted-foreground">
                 {timeAgo}
               </span>
@@ -173,12 +290,19 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
           )}
 
           {/* Message Body */}
-          <div className="text-sm text-foreground">
-            {message.messageType === 'text' ? (
-              <div className="markdown-content">
+          <div className={`text-sm text-foreground ${isPending && deliveryStatus !== 'failed' ? 'opacity-60' : ''}`}>
+            {isEditing ? (
+              <MessageEditor
+                initialContent={editableContent}
+                isSaving={isSaving}
+                onSave={saveEdit}
+                onCancel={() => setIsEditing(false)}
+              />
+            ) : MARKDOWN_MESSAGE_TYPES.includes(message.messageType) ? (
+              <div ref={contentRef} className="markdown-content">
                 <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  rehypePlugins={[rehypeHighlight, rehypeRaw]}
+                  remarkPlugins={messageRemarkPlugins}
+                  rehypePlugins={rehypePlugins}
                   components={{
                     // Custom components for better styling
                     code: ({ node, inline, className, children, ...props }) => {
@@ -200,6 +324,14 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
                         {children}
                       </blockquote>
                     ),
+                    span: ({ node, children, ...props }) => {
+                      const target = (props as Record<string, unknown>)['data-mention']
+                      return typeof target === 'string' ? (
+                        <MentionPill target={target} currentUserId={currentUser.id} />
+                      ) : (
+                        <span {...props}>{children}</span>
+                      )
+                    },
                     a: ({ href, children }) => (
                       <a 
                         href={href} 
@@ -212,11 +344,19 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
                     ),
                   }}
                 >
-                  {searchQuery ? 
-                    highlightSearchTerm(message.content, searchQuery) : 
-                    message.content
-                  }
+                  {message.content}
                 </ReactMarkdown>
+                <MessageAttachment message={message} />
+                {message.editedAt && (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:underline"
+                    title={`Edited ${format(new Date(message.editedAt), 'MMM d, yyyy h:mm a')}`}
+                    onClick={() => setShowHistoryDialog(true)}
+                  >
+                    (edited)
+                  </button>
+                )}
               </div>
             ) : (
               <div className="text-muted-foreground italic">
@@ -225,8 +365,41 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
             )}
           </div>
 
+          {/* Delivery status */}
+          {deliveryStatus && (
+            <div className="mt-1 flex items-center space-x-2 text-xs">
+              {deliveryStatus === 'failed' ? (
+                <>
+                  <span className="flex items-center text-destructive">
+                    <AlertCircle className="h-3 w-3 mr-1" />
+                    Failed to send
+                  </span>
+                  <button type="button" className="text-slack-green hover:underline" onClick={() => retryMessage(message.id)}>
+                    Retry
+                  </button>
+                  <button type="button" className="text-muted-foreground hover:underline" onClick={() => discardMessage(message.id)}>
+                    Delete
+                  </button>
+                </>
+              ) : (
+                <span className="text-muted-foreground">
+                  {deliveryStatus === 'sending' ? 'Sending…' : 'Waiting for connection…'}
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Reactions */}
+          {onToggleReaction && !isPending && (
+            <MessageReactions
+              reactions={reactions}
+              currentUser={currentUser}
+              onToggleReaction={handleToggleReaction}
+            />
+          )}
+
           {/* Thread indicator */}
-          {message.replyCount > 0 && (
+          {onReply && !isPending && message.replyCount > 0 && (
             <Button
               variant="ghost"
               size="sm"
@@ -241,15 +414,27 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
       </div>
 
       {/* Message Actions */}
-      {(isHovered || isOwnMessage) && (
-        <div className="absolute top-1 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+      {!isPending && (isHovered || isOwnMessage || isReactionPickerOpen) && (
+        <div className={`absolute top-1 right-2 group-hover:opacity-100 transition-opacity ${
+          isReactionPickerOpen ? 'opacity-100' : 'opacity-0'
+        }`}>
           <div className="flex items-center space-x-1 bg-background border border-border rounded-md shadow-sm">
-            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleReply}>
-              <MessageSquare className="h-3 w-3" />
-            </Button>
-            <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
-              <Smile className="h-3 w-3" />
-            </Button>
+            {onReply && (
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleReply}>
+                <MessageSquare className="h-3 w-3" />
+              </Button>
+            )}
+            {onToggleReaction && (
+              <EmojiPicker
+                open={isReactionPickerOpen}
+                onOpenChange={setIsReactionPickerOpen}
+                onSelect={handleToggleReaction}
+              >
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                  <Smile className="h-3 w-3" />
+                </Button>
+              </EmojiPicker>
+            )}
             
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -262,17 +447,39 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
                   <Copy className="h-4 w-4 mr-2" />
                   Copy message
                 </DropdownMenuItem>
+                {groupId && (
+                  <DropdownMenuItem onClick={handleCopyLink}>
+                    <Link className="h-4 w-4 mr-2" />
+                    Copy link to message
+                  </DropdownMenuItem>
+                )}
+                {onTogglePin && (
+                  <DropdownMenuItem onClick={() => onTogglePin(message)}>
+                    {isPinned ? (
+                      <PinOff className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Pin className="h-4 w-4 mr-2" />
+                    )}
+                    {isPinned ? 'Unpin from channel' : 'Pin to channel'}
+                  </DropdownMenuItem>
+                )}
+                {message.editedAt && (
+                  <DropdownMenuItem onClick={() => setShowHistoryDialog(true)}>
+                    <History className="h-4 w-4 mr-2" />
+                    View edit history
+                  </DropdownMenuItem>
+                )}
                 {isOwnMessage && (
-                  <>
-                    <DropdownMenuItem onClick={handleEdit}>
-                      <Edit className="h-4 w-4 mr-2" />
-                      Edit message
-                    </DropdownMenuItem>
-                    <DropdownMenuItem onClick={handleDelete} className="text-destructive">
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Delete message
-                    </DropdownMenuItem>
-                  </>
+                  <DropdownMenuItem onClick={handleEdit}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit message
+                  </DropdownMenuItem>
+                )}
+                {(isOwnMessage || canDeleteAnyMessage) && (
+                  <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete message
+                  </DropdownMenuItem>
                 )}
               </DropdownMenuContent>
             </DropdownMenu>
@@ -280,6 +487,15 @@ export function MessageItem({ message, currentUser, showAvatar, searchQuery = ''
         </div>
       )}
       
+      {/* Edit History Dialog */}
+      {message.editedAt && (
+        <MessageHistoryDialog
+          open={showHistoryDialog}
+          onOpenChange={setShowHistoryDialog}
+          message={message}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
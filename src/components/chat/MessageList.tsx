@@ -1,44 +1,251 @@
-import React from 'react'
+import React, { useMemo, useRef, useEffect, useLayoutEffect } from 'react'
+import { useVirtualizer } from '@tanstack/react-virtual'
 import { MessageItem } from '@/components/chat/MessageItem'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
-
-interface Message {
-  id: string
-  channelId: string
-  userId: string
-  content: string
-  messageType: string
-  threadId?: string
-  replyCount: number
-  createdAt: string
-  updatedAt: string
-}
+import { SystemMessage } from '@/components/chat/SystemMessage'
+import type { Message, Reaction, User } from '@/blink/types'
+import { matchesRenderedText } from '@/lib/search'
+import type { SearchMatch } from '@/lib/search'
+import type { DeliveryStatus } from '@/hooks/use-outbox'
+import { useLatestRef } from '@/hooks/use-latest-ref'
 
 interface MessageListProps {
   messages: Message[]
   user: User
-  searchQuery?: string
+  groupId?: string
+  reactions?: Reaction[]
+  // Only messages whose rendered text has every needle are shown, with the
+  // needles highlighted
+  searchNeedles?: string[]
+  activeMatch?: SearchMatch | null
+  highlightedMessageId?: string | null
+  // Messages still in the outbox, by id
+  deliveryStatuses?: Record<string, DeliveryStatus>
+  pinnedMessageIds?: Set<string>
   onMessageDeleted?: (messageId: string) => void
+  onMessageUpdated?: (message: Message) => void
+  onReply?: (message: Message) => void
+  onToggleReaction?: (message: Message, emoji: string) => void
+  onTogglePin?: (message: Message) => void
+  canDeleteAnyMessage?: boolean
+  onJumpToMessage?: (messageId: string) => void
+  unreadAfter?: string | null
+  onMessagesSeen?: (lastSeenAt: string) => void
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  onLoadMore?: () => void
 }
 
-export function MessageList({ messages, user, searchQuery = '', onMessageDeleted }: MessageListProps) {
-  // Filter messages based on search query
-  const filteredMessages = messages.filter(message => {
-    if (!searchQuery.trim()) return true
-    return message.content.toLowerCase().includes(searchQuery.toLowerCase())
+// Start fetching older messages when the user is this close to the top
+const LOAD_MORE_THRESHOLD = 300
+// Treat the list as "following" new messages when within this distance of the bottom
+const STICK_TO_BOTTOM_THRESHOLD = 150
+// Height of the scroll-back status row above the virtualized rows
+const LIST_HEADER_HEIGHT = 32
+// Top padding of the scroll container (py-2)
+const LIST_PADDING_TOP = 8
+// Where the virtualized rows start inside the scroll container
+const LIST_OFFSET = LIST_PADDING_TOP + LIST_HEADER_HEIGHT
+
+const NO_NEEDLES: string[] = []
+
+export function MessageList({
+  messages,
+  user,
+  groupId,
+  reactions = [],
+  searchNeedles = NO_NEEDLES,
+  activeMatch = null,
+  highlightedMessageId = null,
+  deliveryStatuses,
+  pinnedMessageIds,
+  onMessageDeleted,
+  onMessageUpdated,
+  onReply,
+  onToggleReaction,
+  onTogglePin,
+  canDeleteAnyMessage,
+  onJumpToMessage,
+  unreadAfter = null,
+  onMessagesSeen,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore
+}: MessageListProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const isNearBottomRef = useRef(true)
+  const firstMessageIdRef = useRef<string | null>(null)
+  const lastMessageIdRef = useRef<string | null>(null)
+  // The jump target and search match last brought into view
+  const scrolledToHighlightRef = useRef<string | null>(null)
+  const scrolledToMatchRef = useRef<string | null>(null)
+
+  // Group reactions by message for quick lookup
+  const reactionsByMessage = useMemo(() => {
+    const grouped: Record<string, Reaction[]> = {}
+    for (const reaction of reactions) {
+      (grouped[reaction.messageId] ||= []).push(reaction)
+    }
+    return grouped
+  }, [reactions])
+
+  // While searching, only messages whose rendered text has every needle
+  const filteredMessages = useMemo(() => searchNeedles.length > 0
+    ? messages.filter(message => matchesRenderedText(message.content, searchNeedles))
+    : messages, [messages, searchNeedles])
+
+  // The "New" divider goes above the first message from someone else after the read cursor
+  const firstUnreadIndex = useMemo(() => {
+    if (!unreadAfter) return -1
+    const readAt = new Date(unreadAfter).getTime()
+    return filteredMessages.findIndex(message =>
+      message.userId !== user.id &&
+      message.messageType !== 'system' &&
+      new Date(message.createdAt).getTime() > readAt
+    )
+  }, [filteredMessages, unreadAfter, user.id])
+
+  // Only the rows near the viewport are mounted, so long channels stay smooth
+  const virtualizer = useVirtualizer({
+    count: filteredMessages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 64,
+    overscan: 10,
+    getItemKey: (index) => filteredMessages[index].id,
+    // Item positions, and so scrollToIndex, account for the status row and padding above
+    scrollMargin: LIST_OFFSET
   })
 
+  // Keep the viewport anchored when older messages are prepended and follow
+  // new messages at the bottom if the user was already there
+  useLayoutEffect(() => {
+    const firstId = filteredMessages[0]?.id ?? null
+    const lastId = filteredMessages[filteredMessages.length - 1]?.id ?? null
+    const previousFirstId = firstMessageIdRef.current
+    const previousLastId = lastMessageIdRef.current
+    firstMessageIdRef.current = firstId
+    lastMessageIdRef.current = lastId
+
+    if (filteredMessages.length === 0) return
+
+    if (previousFirstId === null) {
+      // First render for this list: start at the message being jumped to, the
+      // first unread message, or the newest one
+      const focusIndex = filteredMessages.findIndex(message => message.id === highlightedMessageId)
+      if (focusIndex >= 0) {
+        virtualizer.scrollToIndex(focusIndex, { align: 'center' })
+      } else if (firstUnreadIndex >= 0) {
+        virtualizer.scrollToIndex(firstUnreadIndex, { align: 'start' })
+      } else {
+        virtualizer.scrollToIndex(filteredMessages.length - 1, { align: 'end' })
+      }
+      return
+    }
+
+    if (firstId !== previousFirstId) {
+      const anchorIndex = filteredMessages.findIndex(message => message.id === previousFirstId)
+      if (anchorIndex > 0) {
+        virtualizer.scrollToIndex(anchorIndex, { align: 'start' })
+        return
+      }
+    }
+
+    if (lastId !== previousLastId) {
+      const lastMessage = filteredMessages[filteredMessages.length - 1]
+      if (isNearBottomRef.current || lastMessage.userId === user.id) {
+        virtualizer.scrollToIndex(filteredMessages.length - 1, { align: 'end' })
+      }
+    }
+    // The focus and unread props only matter on the first render; later runs
+    // with the same first and last message leave the viewport alone
+  }, [filteredMessages, virtualizer, user.id, highlightedMessageId, firstUnreadIndex])
+
+  // Bring a jumped-to message into view once, as soon as it's in the list
+  useEffect(() => {
+    if (!highlightedMessageId) {
+      scrolledToHighlightRef.current = null
+      return
+    }
+    if (scrolledToHighlightRef.current === highlightedMessageId) return
+
+    const index = filteredMessages.findIndex(message => message.id === highlightedMessageId)
+    if (index >= 0) {
+      scrolledToHighlightRef.current = highlightedMessageId
+      virtualizer.scrollToIndex(index, { align: 'center' })
+    }
+  }, [highlightedMessageId, filteredMessages, virtualizer])
+
+  // Bring the message holding the current search match into view; only
+  // stepping to another match moves the viewport
+  useEffect(() => {
+    const matchKey = activeMatch ? `${activeMatch.messageId}:${activeMatch.index}` : null
+    if (!activeMatch || scrolledToMatchRef.current === matchKey) {
+      scrolledToMatchRef.current = matchKey
+      return
+    }
+
+    const index = filteredMessages.findIndex(message => message.id === activeMatch.messageId)
+    if (index >= 0) {
+      scrolledToMatchRef.current = matchKey
+      virtualizer.scrollToIndex(index, { align: 'center' })
+    }
+  }, [activeMatch, filteredMessages, virtualizer])
+
+  // Report the newest message whose top edge has scrolled into view, while the tab is visible
+  const reportSeenMessages = () => {
+    const el = scrollRef.current
+    if (!el || !onMessagesSeen || document.visibilityState !== 'visible') return
+
+    const viewportBottom = el.scrollTop + el.clientHeight
+    let lastSeen: Message | null = null
+    for (const virtualItem of virtualizer.getVirtualItems()) {
+      if (virtualItem.start < viewportBottom) {
+        lastSeen = filteredMessages[virtualItem.index]
+      }
+    }
+    if (lastSeen) onMessagesSeen(lastSeen.createdAt)
+  }
+
+  const reportSeenMessagesRef = useLatestRef(reportSeenMessages)
+
+  // Re-check when messages arrive without scrolling and when the tab becomes visible again
+  useEffect(() => {
+    reportSeenMessagesRef.current()
+  }, [filteredMessages, reportSeenMessagesRef])
+
+  useEffect(() => {
+    const handleVisibilityChange = () => reportSeenMessagesRef.current()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [reportSeenMessagesRef])
+
+  const handleScroll = () => {
+    const el = scrollRef.current
+    if (!el) return
+
+    reportSeenMessages()
+
+    isNearBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < STICK_TO_BOTTOM_THRESHOLD
+
+    if (el.scrollTop < LOAD_MORE_THRESHOLD && hasMore && !isLoadingMore) {
+      onLoadMore?.()
+    }
+  }
+
+  // A short first page may not fill the viewport, so keep loading until it scrolls
+  useEffect(() => {
+    const el = scrollRef.current
+    if (!el || !hasMore || isLoadingMore) return
+    if (el.scrollHeight <= el.clientHeight) {
+      onLoadMore?.()
+    }
+  }, [filteredMessages.length, hasMore, isLoadingMore, onLoadMore])
+
   if (filteredMessages.length === 0) {
-    if (searchQuery.trim()) {
+    if (searchNeedles.length > 0) {
       return (
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center">
-            <p className="text-muted-foreground">No messages found for "{searchQuery}"</p>
+            <p className="text-muted-foreground">No messages found for "{searchNeedles.join(' ')}"</p>
           </div>
         </div>
       )
@@ -55,26 +262,66 @@ export function MessageList({ messages, user, searchQuery = '', onMessageDeleted
   }
 
   return (
-    <div className="flex-1 overflow-y-auto px-4 py-2">
-      <div className="space-y-2">
-        {filteredMessages.map((message, index) => {
+    <div ref={scrollRef} className="flex-1 overflow-y-auto px-4 py-2" onScroll={handleScroll}>
+      {/* Scroll-back status */}
+      <div className="h-8 flex items-center justify-center">
+        {isLoadingMore ? (
+          <div className="w-4 h-4 border-2 border-slack-purple border-t-transparent rounded-full animate-spin"></div>
+        ) : !hasMore && (
+          <p className="text-xs text-muted-foreground">This is the beginning of your conversation.</p>
+        )}
+      </div>
+
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualizer.getVirtualItems().map((virtualItem) => {
+          const index = virtualItem.index
+          const message = filteredMessages[index]
           const prevMessage = index > 0 ? filteredMessages[index - 1] : null
           const showAvatar = !prevMessage || 
             prevMessage.userId !== message.userId ||
+            prevMessage.messageType === 'system' ||
             new Date(message.createdAt).getTime() - new Date(prevMessage.createdAt).getTime() > 300000 // 5 minutes
 
           return (
-            <MessageItem
-              key={message.id}
-              message={message}
-              currentUser={user}
-              showAvatar={showAvatar}
-              searchQuery={searchQuery}
-              onMessageDeleted={onMessageDeleted}
-            />
+            <div
+              key={virtualItem.key}
+              data-index={index}
+              ref={virtualizer.measureElement}
+              className="absolute top-0 left-0 w-full flow-root pb-2"
+              style={{ transform: `translateY(${virtualItem.start - LIST_OFFSET}px)` }}
+            >
+              {index === firstUnreadIndex && (
+                <div className="flex items-center mt-2">
+                  <div className="flex-1 border-t border-red-500" />
+                  <span className="ml-2 text-xs font-semibold text-red-500">New</span>
+                </div>
+              )}
+              {message.messageType === 'system' ? (
+                <SystemMessage message={message} onJumpToMessage={onJumpToMessage} />
+              ) : (
+                <MessageItem
+                  message={message}
+                  currentUser={user}
+                  groupId={groupId}
+                  showAvatar={showAvatar}
+                  reactions={reactionsByMessage[message.id]}
+                  searchNeedles={searchNeedles}
+                  activeMatchIndex={activeMatch?.messageId === message.id ? activeMatch.index : null}
+                  deliveryStatus={deliveryStatuses?.[message.id]}
+                  isHighlighted={message.id === highlightedMessageId}
+                  isPinned={pinnedMessageIds?.has(message.id)}
+                  onMessageDeleted={onMessageDeleted}
+                  onMessageUpdated={onMessageUpdated}
+                  onReply={onReply}
+                  onToggleReaction={onToggleReaction}
+                  onTogglePin={onTogglePin}
+                  canDeleteAnyMessage={canDeleteAnyMessage}
+                />
+              )}
+            </div>
           )
         })}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
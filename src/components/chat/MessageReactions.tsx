@@ -0,0 +1,77 @@
+import { SmilePlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { EmojiPicker } from '@/components/chat/EmojiPicker'
+import type { Reaction, User } from '@/blink/types'
+import { useProfiles, getDisplayName } from '@/hooks/use-profiles'
+
+interface MessageReactionsProps {
+  reactions: Reaction[]
+  currentUser: User
+  onToggleReaction: (emoji: string) => void
+}
+
+export function MessageReactions({ reactions, currentUser, onToggleReaction }: MessageReactionsProps) {
+  const profiles = useProfiles(reactions.map(reaction => reaction.userId))
+
+  if (reactions.length === 0) return null
+
+  // Group reactions by emoji, keeping the order each emoji was first used
+  const groups = reactions.reduce<{ emoji: string; userIds: string[] }[]>((acc, reaction) => {
+    const group = acc.find(g => g.emoji === reaction.emoji)
+    if (group) {
+      group.userIds.push(reaction.userId)
+    } else {
+      acc.push({ emoji: reaction.emoji, userIds: [reaction.userId] })
+    }
+    return acc
+  }, [])
+
+  const formatReactors = (userIds: string[]) => {
+    const names = userIds.map(userId => userId === currentUser.id ? 'You' : getDisplayName(userId, profiles[userId]))
+    if (names.length <= 2) return names.join(' and ')
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+  }
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <div className="flex flex-wrap items-center gap-1 mt-1">
+        {groups.map((group) => {
+          const hasReacted = group.userIds.includes(currentUser.id)
+          return (
+            <Tooltip key={group.emoji}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => onToggleReaction(group.emoji)}
+                  className={`h-6 px-2 flex items-center space-x-1 rounded-full border text-xs transition-colors ${
+                    hasReacted
+                      ? 'border-slack-green bg-slack-green/10 text-foreground'
+                      : 'border-border bg-muted/50 text-muted-foreground hover:border-muted-foreground'
+                  }`}
+                >
+                  <span>{group.emoji}</span>
+                  <span className="font-medium">{group.userIds.length}</span>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {formatReactors(group.userIds)} reacted with {group.emoji}
+              </TooltipContent>
+            </Tooltip>
+          )
+        })}
+
+        <EmojiPicker onSelect={onToggleReaction} align="start">
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0 rounded-full">
+            <SmilePlus className="h-3 w-3" />
+          </Button>
+        </EmojiPicker>
+      </div>
+    </TooltipProvider>
+  )
+}
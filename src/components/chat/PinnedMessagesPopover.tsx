@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react'
+import type { ReactNode } from 'react'
+import { Pin } from 'lucide-react'
+import { format } from 'date-fns'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { db } from '@/blink/db'
+import type { Message, PinnedMessage } from '@/blink/types'
+import { useProfiles, getDisplayName } from '@/hooks/use-profiles'
+import { extractMentions, mentionsToText } from '@/lib/mentions'
+
+interface PinnedMessagesPopoverProps {
+  pins: PinnedMessage[]
+  onJumpToMessage: (messageId: string) => void
+  children: ReactNode
+}
+
+export function PinnedMessagesPopover({ pins, onJumpToMessage, children }: PinnedMessagesPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [pinnedMessages, setPinnedMessages] = useState<Record<string, Message>>({})
+  const [loading, setLoading] = useState(false)
+  const messageIdsKey = pins.map(pin => pin.messageId).join(',')
+
+  // Load the pinned messages themselves whenever the popover is opened
+  useEffect(() => {
+    if (!open || !messageIdsKey) return
+
+    const loadPinnedMessages = async () => {
+      setLoading(true)
+      try {
+        const messagesData: Message[] = await db.messages.list({
+          where: { id: { in: messageIdsKey.split(',') } }
+        })
+        setPinnedMessages(Object.fromEntries(messagesData.map(message => [message.id, message])))
+      } catch (error) {
+        console.error('Error loading pinned messages:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPinnedMessages()
+  }, [open, messageIdsKey])
+
+  // Pins whose message has since been deleted are skipped
+  const visiblePins = [...pins]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .filter(pin => pinnedMessages[pin.messageId])
+
+  const profiles = useProfiles([
+    ...pins.map(pin => pin.pinnedBy),
+    ...Object.values(pinnedMessages).flatMap(message => [
+      message.userId,
+      ...extractMentions(message.content).flatMap(mention => mention.type === 'user' ? [mention.userId] : [])
+    ])
+  ])
+
+  const handleSelect = (messageId: string) => {
+    setOpen(false)
+    onJumpToMessage(messageId)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        {children}
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center space-x-2 px-4 py-3 border-b border-border">
+          <Pin className="h-4 w-4 text-muted-foreground" />
+          <h3 className="font-semibold text-sm text-foreground">Pinned messages</h3>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="w-5 h-5 border-2 border-slack-purple border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : visiblePins.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8 px-4">
+            No pinned messages yet. Pin important messages from their menu to keep them here.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="p-2 space-y-1">
+              {visiblePins.map((pin) => {
+                const message = pinnedMessages[pin.messageId]
+                const text = mentionsToText(message.content, userId => getDisplayName(userId, profiles[userId]))
+
+                return (
+                  <button
+                    key={pin.id}
+                    type="button"
+                    onClick={() => handleSelect(pin.messageId)}
+                    className="w-full text-left p-2 rounded-md hover:bg-muted transition-colors"
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-semibold text-foreground truncate">
+                        {getDisplayName(message.userId, profiles[message.userId])}
+                      </span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {format(new Date(message.createdAt), 'MMM d')}
+                      </span>
+                    </div>
+                    <p className="text-sm text-foreground line-clamp-3 break-words">
+                      {text || message.attachmentName}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Pinned by {getDisplayName(pin.pinnedBy, profiles[pin.pinnedBy])} on {format(new Date(pin.createdAt), 'MMM d, yyyy h:mm a')}
+                    </p>
+                  </button>
+                )
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,27 @@
+import { usePresence } from '@/hooks/use-presence'
+import { PRESENCE_LABELS } from '@/lib/presence'
+
+interface PresenceDotProps {
+  userId: string
+  className?: string
+  // Matches the surface the dot sits on, so it cuts cleanly into an avatar
+  ringClassName?: string
+}
+
+const STATUS_CLASSES = {
+  active: 'bg-green-500 border-green-500',
+  away: 'bg-amber-400 border-amber-400',
+  offline: 'bg-transparent border-gray-400'
+}
+
+export function PresenceDot({ userId, className = '', ringClassName = 'ring-background' }: PresenceDotProps) {
+  const status = usePresence(userId)
+
+  return (
+    <span
+      className={`inline-block h-2.5 w-2.5 shrink-0 rounded-full border-2 ring-2 ${ringClassName} ${STATUS_CLASSES[status]} ${className}`}
+      title={PRESENCE_LABELS[status]}
+      aria-label={PRESENCE_LABELS[status]}
+    />
+  )
+}
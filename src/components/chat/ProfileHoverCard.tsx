@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { Clock, Mail } from 'lucide-react'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger
+} from '@/components/ui/hover-card'
+import { PresenceDot } from '@/components/chat/PresenceDot'
+import { useProfile, getDisplayName, getInitials } from '@/hooks/use-profiles'
+import { usePresence } from '@/hooks/use-presence'
+import { getCustomStatus, PRESENCE_LABELS } from '@/lib/presence'
+
+interface ProfileHoverCardProps {
+  userId: string
+  children: ReactNode
+}
+
+const formatLocalTime = (timezone: string) => {
+  try {
+    return new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timezone })
+  } catch {
+    return null
+  }
+}
+
+export function ProfileHoverCard({ userId, children }: ProfileHoverCardProps) {
+  const [open, setOpen] = useState(false)
+  const profile = useProfile(userId)
+  const displayName = getDisplayName(userId, profile)
+  const localTime = profile?.timezone ? formatLocalTime(profile.timezone) : null
+  const presence = usePresence(userId)
+  const customStatus = getCustomStatus(profile)
+
+  return (
+    <HoverCard open={open} onOpenChange={setOpen} openDelay={400}>
+      <HoverCardTrigger asChild>
+        <button
+          type="button"
+          onClick={() => setOpen(prev => !prev)}
+          className="hover:underline focus:outline-none"
+        >
+          {children}
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent align="start" className="w-72">
+        <div className="flex items-start space-x-3">
+          <Avatar className="h-12 w-12">
+            <AvatarImage src={profile?.avatarUrl} />
+            <AvatarFallback className="bg-slack-green text-white">
+              {getInitials(userId, profile)}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <div className="font-semibold text-sm text-foreground truncate">{displayName}</div>
+            {profile?.title && (
+              <div className="text-xs text-muted-foreground truncate">{profile.title}</div>
+            )}
+            <div className="mt-1 flex items-center space-x-1.5 text-xs text-muted-foreground">
+              <PresenceDot userId={userId} ringClassName="ring-popover" />
+              <span>{PRESENCE_LABELS[presence]}</span>
+            </div>
+          </div>
+        </div>
+
+        {customStatus && (
+          <div className="mt-3 flex items-center space-x-2 rounded-md bg-muted px-2 py-1 text-sm">
+            <span>{customStatus.emoji}</span>
+            {customStatus.text && <span className="truncate">{customStatus.text}</span>}
+          </div>
+        )}
+
+        <div className="mt-3 space-y-1 text-xs text-muted-foreground">
+          {profile?.email && (
+            <div className="flex items-center space-x-2">
+              <Mail className="h-3 w-3" />
+              <span className="truncate">{profile.email}</span>
+            </div>
+          )}
+          {localTime && (
+            <div className="flex items-center space-x-2">
+              <Clock className="h-3 w-3" />
+              <span>{localTime} local time ({profile?.timezone})</span>
+            </div>
+          )}
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect, useRef } from 'react'
+import { X, Search, Hash, MessageCircle, Paperclip } from 'lucide-react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { searchMessages } from '@/blink/search'
+import type { SearchResult } from '@/blink/search'
+import type { Channel, User } from '@/blink/types'
+import { useProfiles, getDisplayName } from '@/hooks/use-profiles'
+import { extractMentions, mentionsToText } from '@/lib/mentions'
+import {
+  parseSearchQuery,
+  hasSearchCriteria,
+  getSearchNeedles,
+  buildSnippet,
+  splitByMatches
+} from '@/lib/search'
+
+interface SearchPanelProps {
+  query: string
+  channels: Channel[]
+  user: User
+  onClose: () => void
+  onJumpToMessage: (channelId: string, messageId: string) => void
+}
+
+export function SearchPanel({ query, channels, user, onClose, onJumpToMessage }: SearchPanelProps) {
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [nextOffset, setNextOffset] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const parsedQuery = parseSearchQuery(query)
+  const needles = getSearchNeedles(parsedQuery)
+  // The channel list is rebuilt whenever the workspace store changes, so
+  // searches rerun only when the set of channels does
+  const channelKey = channels.map(channel => `${channel.id}:${channel.name}`).join(',')
+  const channelsRef = useRef(channels)
+
+  useEffect(() => {
+    channelsRef.current = channels
+  })
+
+  // Run the search whenever the query or the visible channels change
+  useEffect(() => {
+    const searchQuery = parseSearchQuery(query)
+    if (!hasSearchCriteria(searchQuery)) {
+      setResults([])
+      setNextOffset(null)
+      return
+    }
+
+    let cancelled = false
+
+    const runSearch = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const page = await searchMessages(searchQuery, channelsRef.current, user.id)
+        if (!cancelled) {
+          setResults(page.results)
+          setNextOffset(page.nextOffset)
+        }
+      } catch (error) {
+        console.error('Error searching messages:', error)
+        if (!cancelled) setError('Search failed. Please try again.')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    runSearch()
+    return () => {
+      cancelled = true
+    }
+  }, [query, channelKey, user.id])
+
+  // Older matches come in further batches, after the ones already shown
+  const handleLoadMore = async () => {
+    if (nextOffset === null || loadingMore) return
+
+    setLoadingMore(true)
+    try {
+      const page = await searchMessages(parsedQuery, channels, user.id, nextOffset)
+      setResults(prev => [...prev, ...page.results])
+      setNextOffset(page.nextOffset)
+    } catch (error) {
+      console.error('Error searching messages:', error)
+      setError('Search failed. Please try again.')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const profiles = useProfiles(results.flatMap(({ message }) => [
+    message.userId,
+    ...extractMentions(message.content).flatMap(mention => mention.type === 'user' ? [mention.userId] : [])
+  ]))
+
+  const getChannel = (channelId: string) => channels.find(channel => channel.id === channelId)
+
+  const filterBadges = [
+    ...parsedQuery.from.map(name => `from:${name}`),
+    ...parsedQuery.in.map(name => `in:#${name}`),
+    ...parsedQuery.has.map(kind => `has:${kind}`),
+    ...(parsedQuery.after ? [`after ${format(parsedQuery.after, 'MMM d, yyyy')}`] : []),
+    ...(parsedQuery.before ? [`before ${format(parsedQuery.before, 'MMM d, yyyy')}`] : [])
+  ]
+
+  return (
+    <div className="w-96 border-l border-border flex flex-col bg-background">
+      {/* Header */}
+      <div className="h-14 border-b border-border flex items-center justify-between px-4">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Search className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <h3 className="font-semibold text-foreground truncate">Search results</h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {filterBadges.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-4 py-2 border-b border-border">
+          {filterBadges.map(label => (
+            <Badge key={label} variant="secondary" className="text-xs">{label}</Badge>
+          ))}
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="w-5 h-5 border-2 border-slack-purple border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive text-center py-8 px-4">{error}</p>
+        ) : !hasSearchCriteria(parsedQuery) ? (
+          <div className="text-sm text-muted-foreground py-8 px-4 space-y-2">
+            <p>Search every channel you can see. Try filters like:</p>
+            <p className="font-mono text-xs">from:@name in:#channel before:2024-06-01 after:2024-05-01 has:link has:file "exact phrase"</p>
+          </div>
+        ) : results.length === 0 && nextOffset === null ? (
+          <p className="text-sm text-muted-foreground text-center py-8 px-4">
+            No messages match "{query}"
+          </p>
+        ) : (
+          <div className="p-2 space-y-1">
+            <p className="text-xs text-muted-foreground px-2 py-1">
+              {results.length}{nextOffset !== null && '+'} {results.length === 1 ? 'result' : 'results'}
+            </p>
+            {results.map(({ message }) => {
+              const channel = getChannel(message.channelId)
+              const isDirect = Number(channel?.isDirect) > 0
+              const text = mentionsToText(message.content, userId => getDisplayName(userId, profiles[userId]))
+              const snippet = buildSnippet(text || message.attachmentName || '', needles)
+
+              return (
+                <button
+                  key={message.id}
+                  type="button"
+                  onClick={() => onJumpToMessage(message.channelId, message.id)}
+                  className="w-full text-left p-2 rounded-md hover:bg-muted transition-colors"
+                >
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                    <span className="flex items-center space-x-1 min-w-0">
+                      {isDirect ? <MessageCircle className="h-3 w-3" /> : <Hash className="h-3 w-3" />}
+                      <span className="truncate">{channel?.name}</span>
+                      {message.threadId && <span>· in thread</span>}
+                    </span>
+                    <span className="flex-shrink-0">{format(new Date(message.createdAt), 'MMM d, yyyy')}</span>
+                  </div>
+                  <div className="text-sm font-semibold text-foreground">
+                    {getDisplayName(message.userId, profiles[message.userId])}
+                  </div>
+                  <p className="text-sm text-foreground break-words">
+                    {splitByMatches(snippet, needles).map((segment, index) => segment.isMatch ? (
+                      <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 rounded-sm">{segment.text}</mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    ))}
+                  </p>
+                  {message.attachmentName && (
+                    <div className="flex items-center space-x-1 text-xs text-muted-foreground mt-1">
+                      <Paperclip className="h-3 w-3" />
+                      <span className="truncate">{message.attachmentName}</span>
+                    </div>
+                  )}
+                </button>
+              )
+            })}
+            {nextOffset !== null && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Searching...' : 'Search older messages'}
+              </Button>
+            )}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  )
+}
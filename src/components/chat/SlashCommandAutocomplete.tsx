@@ -0,0 +1,51 @@
+import { Slash } from 'lucide-react'
+import {
+  Command,
+  CommandGroup,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command'
+import type { SlashCommand } from '@/lib/slash-commands'
+
+interface SlashCommandAutocompleteProps {
+  commands: SlashCommand[]
+  selectedName: string
+  onSelectedChange: (name: string) => void
+  onSelect: (command: SlashCommand) => void
+}
+
+// Like MentionAutocomplete, keyboard navigation stays in the textarea and
+// this list mirrors the selection and handles mouse picks
+export function SlashCommandAutocomplete({ commands, selectedName, onSelectedChange, onSelect }: SlashCommandAutocompleteProps) {
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-96 border border-border rounded-md shadow-md z-20 bg-popover">
+      <Command value={selectedName} onValueChange={onSelectedChange} shouldFilter={false}>
+        <CommandList>
+          <CommandGroup heading="Commands">
+            {commands.map(command => (
+              <CommandItem
+                key={command.name}
+                value={command.name}
+                onMouseDown={(e) => e.preventDefault()}
+                onSelect={() => onSelect(command)}
+              >
+                <div className="h-5 w-5 flex items-center justify-center rounded bg-muted flex-shrink-0">
+                  <Slash className="h-3 w-3" />
+                </div>
+                <div className="min-w-0">
+                  <div className="truncate">
+                    <span className="font-medium">/{command.name}</span>
+                    {command.argsHint && (
+                      <span className="ml-1 text-xs text-muted-foreground">{command.argsHint}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{command.description}</div>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    </div>
+  )
+}
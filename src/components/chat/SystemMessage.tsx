@@ -0,0 +1,52 @@
+import { Info, Pin, PinOff, UserPlus, UserMinus, LogIn, LogOut, Archive, ArchiveRestore, Megaphone } from 'lucide-react'
+import { format } from 'date-fns'
+import type { Message } from '@/blink/types'
+import { useProfiles, getDisplayName } from '@/hooks/use-profiles'
+import { extractMentions, mentionsToText } from '@/lib/mentions'
+
+interface SystemMessageProps {
+  message: Message
+  onJumpToMessage?: (messageId: string) => void
+}
+
+const SYSTEM_EVENT_ICONS: Record<string, typeof Info> = {
+  'pin.added': Pin,
+  'pin.removed': PinOff,
+  'member.joined': LogIn,
+  'member.left': LogOut,
+  'member.added': UserPlus,
+  'member.removed': UserMinus,
+  'channel.archived': Archive,
+  'channel.unarchived': ArchiveRestore,
+  'channel.topic': Megaphone
+}
+
+// Channel events such as pins, rendered as a single muted line
+export function SystemMessage({ message, onJumpToMessage }: SystemMessageProps) {
+  const profiles = useProfiles([
+    message.userId,
+    ...extractMentions(message.content).flatMap(mention => mention.type === 'user' ? [mention.userId] : [])
+  ])
+  const refMessageId = message.refMessageId
+  const Icon = SYSTEM_EVENT_ICONS[message.systemEvent || ''] || Info
+
+  return (
+    <div className="flex items-center space-x-2 py-1 px-3 mt-1 text-xs text-muted-foreground">
+      <Icon className="h-3 w-3 flex-shrink-0" />
+      <span>
+        <span className="font-medium text-foreground">{getDisplayName(message.userId, profiles[message.userId])}</span>
+        {' '}{mentionsToText(message.content, userId => getDisplayName(userId, profiles[userId]))}.
+      </span>
+      {refMessageId && onJumpToMessage && (
+        <button
+          type="button"
+          onClick={() => onJumpToMessage(refMessageId)}
+          className="text-slack-green hover:underline"
+        >
+          View message
+        </button>
+      )}
+      <span>{format(new Date(message.createdAt), 'h:mm a')}</span>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { MessageItem } from '@/components/chat/MessageItem'
+import { MessageInput } from '@/components/chat/MessageInput'
+import { TypingIndicator } from '@/components/chat/TypingIndicator'
+import { db } from '@/blink/db'
+import { updateReplyCount } from '@/blink/messages'
+import { publishChannelEvent } from '@/blink/realtime'
+import type { Attachment, Message, Reaction, User } from '@/blink/types'
+import { useChannelEvents } from '@/hooks/use-channel-events'
+import { useTypingIndicator } from '@/hooks/use-typing'
+import { enqueueMessage, useOutbox } from '@/hooks/use-outbox'
+import { serializeMentions } from '@/lib/mentions'
+
+interface ThreadPanelProps {
+  parentMessage: Message
+  user: User
+  groupId?: string
+  // Names the thread in the drafts list
+  channelLabel: string
+  reactions: Reaction[]
+  onLoadReactions: (messageIds: string[]) => void
+  onClose: () => void
+  onReplyCountChange: (messageId: string, replyCount: number) => void
+  // Deleting the parent takes the whole thread with it
+  onMessageDeleted: (messageId: string) => void
+  onMessageUpdated: (message: Message) => void
+  onToggleReaction: (message: Message, emoji: string) => void
+  canDeleteAnyMessage?: boolean
+  isReadOnly?: boolean
+}
+
+export function ThreadPanel({ parentMessage, user, groupId, channelLabel, reactions, onLoadReactions, onClose, onReplyCountChange, onMessageDeleted, onMessageUpdated, onToggleReaction, canDeleteAnyMessage, isReadOnly = false }: ThreadPanelProps) {
+  const [replies, setReplies] = useState<Message[]>([])
+  const [loading, setLoading] = useState(false)
+  const repliesEndRef = useRef<HTMLDivElement>(null)
+  const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(parentMessage.channelId, user.id, parentMessage.id)
+
+  // Load replies for the parent message
+  useEffect(() => {
+    const loadReplies = async () => {
+      setLoading(true)
+      try {
+        const repliesData = await db.messages.list({
+          where: { threadId: parentMessage.id },
+          orderBy: { createdAt: 'asc' }
+        })
+        setReplies(repliesData)
+        onLoadReactions(repliesData.map((reply: Message) => reply.id))
+      } catch (error) {
+        console.error('Error loading thread replies:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadReplies()
+  }, [parentMessage.id, onLoadReactions])
+
+  // Auto-scroll to bottom when new replies arrive
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [replies])
+
+  // Keep the parent's replyCount in sync with the stored replies
+  const syncReplyCount = async () => {
+    try {
+      const replyCount = await updateReplyCount(parentMessage.id)
+      onReplyCountChange(parentMessage.id, replyCount)
+      publishChannelEvent(parentMessage.channelId, {
+        type: 'message.updated',
+        message: { id: parentMessage.id, replyCount }
+      })
+    } catch (error) {
+      console.error('Error updating reply count:', error)
+    }
+  }
+
+  const addReply = (newReply: Message) => {
+    setReplies(prev => prev.some(reply => reply.id === newReply.id) ? prev : [...prev, newReply])
+  }
+
+  // Replies go through the outbox, which also updates the parent's replyCount
+  const handleSendReply = (content: string, messageType: string = 'text', attachment?: Attachment) => {
+    if (!content.trim() && !attachment) return
+
+    stopTyping()
+
+    enqueueMessage({
+      channelId: parentMessage.channelId,
+      userId: user.id,
+      content: content.trim(),
+      messageType,
+      mentions: serializeMentions(content),
+      threadId: parentMessage.id,
+      attachmentUrl: attachment?.url,
+      attachmentName: attachment?.name,
+      attachmentSize: attachment?.size,
+      attachmentMimeType: attachment?.mimeType
+    })
+  }
+
+  const pendingReplies = useOutbox(parentMessage.channelId, parentMessage.id, (sentMessage) => {
+    if (sentMessage.threadId === parentMessage.id) addReply(sentMessage)
+  })
+
+  const threadReplies = useMemo(() => {
+    const knownIds = new Set(replies.map(reply => reply.id))
+    return [...replies, ...pendingReplies.map(entry => entry.message).filter(reply => !knownIds.has(reply.id))]
+  }, [replies, pendingReplies])
+
+  const deliveryStatuses = useMemo(() =>
+    Object.fromEntries(pendingReplies.map(entry => [entry.message.id, entry.status])), [pendingReplies])
+
+  // Handle reply edits
+  const handleReplyUpdated = (updatedReply: Partial<Message> & { id: string }) => {
+    setReplies(prev => prev.map(reply => reply.id === updatedReply.id ? { ...reply, ...updatedReply } : reply))
+  }
+
+  // Handle reply deletion
+  const handleReplyDeleted = async (messageId: string) => {
+    setReplies(prev => prev.filter(reply => reply.id !== messageId))
+    await syncReplyCount()
+  }
+
+  // Apply reply inserts, edits and deletes made by other clients
+  useChannelEvents(parentMessage.channelId, (event) => {
+    switch (event.type) {
+      case 'message.created':
+        if (event.message.threadId === parentMessage.id) {
+          addReply(event.message)
+        }
+        break
+      case 'message.updated':
+        handleReplyUpdated(event.message)
+        break
+      case 'message.deleted':
+        setReplies(prev => prev.filter(reply => reply.id !== event.messageId))
+        break
+    }
+  })
+
+  return (
+    <div className="w-96 border-l border-border flex flex-col h-full bg-background">
+      {/* Thread Header */}
+      <div className="h-14 border-b border-border flex items-center justify-between px-4">
+        <h3 className="font-semibold text-foreground">Thread</h3>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Parent Message and Replies */}
+      <div className="flex-1 overflow-y-auto px-4 py-2">
+        <MessageItem
+          message={parentMessage}
+          currentUser={user}
+          groupId={groupId}
+          showAvatar={true}
+          reactions={reactions.filter(reaction => reaction.messageId === parentMessage.id)}
+          onMessageDeleted={onMessageDeleted}
+          onMessageUpdated={onMessageUpdated}
+          onToggleReaction={onToggleReaction}
+          canDeleteAnyMessage={canDeleteAnyMessage}
+        />
+
+        <div className="flex items-center my-2">
+          <span className="text-xs text-muted-foreground mr-2">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </span>
+          <div className="flex-1 border-t border-border" />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="w-5 h-5 border-2 border-slack-purple border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {threadReplies.map((reply, index) => {
+              const prevReply = index > 0 ? threadReplies[index - 1] : null
+              const showAvatar = !prevReply ||
+                prevReply.userId !== reply.userId ||
+                new Date(reply.createdAt).getTime() - new Date(prevReply.createdAt).getTime() > 300000 // 5 minutes
+
+              return (
+                <MessageItem
+                  key={reply.id}
+                  message={reply}
+                  currentUser={user}
+                  groupId={groupId}
+                  showAvatar={showAvatar}
+                  reactions={reactions.filter(reaction => reaction.messageId === reply.id)}
+                  onMessageDeleted={handleReplyDeleted}
+                  onMessageUpdated={handleReplyUpdated}
+                  onToggleReaction={onToggleReaction}
+                  canDeleteAnyMessage={canDeleteAnyMessage}
+                  deliveryStatus={deliveryStatuses[reply.id]}
+                />
+              )
+            })}
+          </div>
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      {/* Reply Input */}
+      {!isReadOnly && (
+        <div className="border-t border-border p-4">
+          <TypingIndicator userIds={typingUserIds} />
+          <MessageInput
+            onSendMessage={handleSendReply}
+            placeholder="Reply..."
+            user={user}
+            groupId={groupId}
+            draft={groupId ? {
+              groupId,
+              channelId: parentMessage.channelId,
+              threadId: parentMessage.id,
+              label: `Thread in ${channelLabel}`
+            } : undefined}
+            commandHost={groupId ? { groupId, channelId: parentMessage.channelId, threadId: parentMessage.id } : undefined}
+            onTyping={(isTyping) => isTyping ? notifyTyping() : stopTyping()}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
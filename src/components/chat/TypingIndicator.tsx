@@ -0,0 +1,26 @@
+import { useProfiles, getDisplayName } from '@/hooks/use-profiles'
+
+interface TypingIndicatorProps {
+  userIds: string[]
+}
+
+export function TypingIndicator({ userIds }: TypingIndicatorProps) {
+  const profiles = useProfiles(userIds)
+  const names = userIds.map(id => getDisplayName(id, profiles[id]))
+
+  let label = ''
+  if (names.length === 1) {
+    label = `${names[0]} is typing…`
+  } else if (names.length === 2) {
+    label = `${names[0]} and ${names[1]} are typing…`
+  } else if (names.length > 2) {
+    label = 'Several people are typing…'
+  }
+
+  // Always reserve the line so the input doesn't jump when someone starts typing
+  return (
+    <div className="h-4 mb-1 text-xs text-muted-foreground truncate" aria-live="polite">
+      {label}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { UserPlus, Search } from 'lucide-react'
+import { useProfiles, getDisplayName, getInitials } from '@/hooks/use-profiles'
+import { useWorkspaceMembers } from '@/hooks/use-workspace-store'
+
+interface AddChannelMembersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  groupId: string
+  channelName: string
+  isPrivate?: boolean
+  existingMemberIds: string[]
+  onAddMembers: (userIds: string[]) => Promise<void>
+}
+
+export function AddChannelMembersDialog({
+  open,
+  onOpenChange,
+  groupId,
+  channelName,
+  isPrivate = false,
+  existingMemberIds,
+  onAddMembers
+}: AddChannelMembersDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [query, setQuery] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const workspaceMembers = useWorkspaceMembers(open ? groupId : null)
+  const candidates = workspaceMembers.filter(member => !existingMemberIds.includes(member.userId))
+  const profiles = useProfiles(candidates.map(member => member.userId))
+
+  const toggleMember = (userId: string) => {
+    setSelectedIds(prev => prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]
+    )
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSelectedIds([])
+      setQuery('')
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (selectedIds.length === 0) return
+
+    setIsLoading(true)
+    try {
+      await onAddMembers(selectedIds)
+      handleOpenChange(false)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const normalizedQuery = query.trim().toLowerCase()
+  const filteredCandidates = candidates.filter(member => {
+    const profile = profiles[member.userId]
+    return [getDisplayName(member.userId, profile), profile?.email]
+      .some(value => value?.toLowerCase().includes(normalizedQuery))
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <UserPlus className="h-5 w-5" />
+            <span>{isPrivate ? 'Invite people to' : 'Add people to'} #{channelName}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {isPrivate
+              ? 'This channel is private. People you invite can read its full history.'
+              : 'Only people in this workspace can be added.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Find members"
+              className="pl-9"
+            />
+          </div>
+
+          <ScrollArea className="h-60 border border-border rounded-md">
+            {filteredCandidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Everyone in this workspace is already here
+              </p>
+            ) : (
+              <div className="p-1">
+                {filteredCandidates.map((member) => (
+                  <label
+                    key={member.id}
+                    className="flex items-center space-x-3 p-2 rounded-md hover:bg-muted cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={selectedIds.includes(member.userId)}
+                      onCheckedChange={() => toggleMember(member.userId)}
+                    />
+                    <Avatar className="h-6 w-6">
+                      <AvatarImage src={profiles[member.userId]?.avatarUrl} />
+                      <AvatarFallback className="bg-slack-green text-white text-xs">
+                        {getInitials(member.userId, profiles[member.userId])}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm truncate">{getDisplayName(member.userId, profiles[member.userId])}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={selectedIds.length === 0 || isLoading}
+              className="bg-slack-green hover:bg-slack-active"
+            >
+              {isPrivate
+                ? (isLoading ? 'Inviting...' : 'Invite')
+                : (isLoading ? 'Adding...' : 'Add')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Hash, Lock, Search, Check } from 'lucide-react'
+import { db } from '@/blink/db'
+import { addChannelMembers, removeChannelMember } from '@/blink/channel-members'
+import { publishChannelEvent } from '@/blink/realtime'
+import type { Channel, ChannelMember, User } from '@/blink/types'
+import { useToast } from '@/hooks/use-toast'
+
+interface BrowseChannelsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  channels: Channel[]
+  joinedChannelIds: string[]
+  user: User
+  onChannelSelect: (channelId: string) => void
+  onMembershipChange: () => void
+}
+
+export function BrowseChannelsDialog({
+  open,
+  onOpenChange,
+  channels,
+  joinedChannelIds,
+  user,
+  onChannelSelect,
+  onMembershipChange
+}: BrowseChannelsDialogProps) {
+  const [query, setQuery] = useState('')
+  const [memberCounts, setMemberCounts] = useState<Record<string, number>>({})
+  const [pendingChannelId, setPendingChannelId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const browsableChannels = channels.filter(channel => !Number(channel.isDirect))
+  const channelIdsKey = browsableChannels.map(channel => channel.id).join(',')
+
+  // Load member counts for every listed channel in one query
+  useEffect(() => {
+    if (!open || !channelIdsKey) return
+
+    const loadMemberCounts = async () => {
+      try {
+        const membersData: ChannelMember[] = await db.channelMembers.list({
+          where: { channelId: { in: channelIdsKey.split(',') } }
+        })
+        const counts: Record<string, number> = {}
+        for (const member of membersData) {
+          counts[member.channelId] = (counts[member.channelId] || 0) + 1
+        }
+        setMemberCounts(counts)
+      } catch (error) {
+        console.error('Error loading channel members:', error)
+      }
+    }
+
+    loadMemberCounts()
+  }, [open, channelIdsKey, joinedChannelIds])
+
+  const handleToggleMembership = async (channel: Channel) => {
+    const isJoined = joinedChannelIds.includes(channel.id)
+    setPendingChannelId(channel.id)
+
+    try {
+      if (isJoined) {
+        await removeChannelMember(channel.id, user.id)
+      } else {
+        await addChannelMembers(channel.id, [user.id])
+      }
+      publishChannelEvent(channel.id, { type: 'members.changed' })
+      onMembershipChange()
+    } catch (error) {
+      console.error('Error updating channel membership:', error)
+      toast({
+        title: 'Error',
+        description: `Failed to ${isJoined ? 'leave' : 'join'} #${channel.name}. Please try again.`,
+        variant: 'destructive'
+      })
+    } finally {
+      setPendingChannelId(null)
+    }
+  }
+
+  const handleOpenChannel = (channelId: string) => {
+    onChannelSelect(channelId)
+    onOpenChange(false)
+  }
+
+  const normalizedQuery = query.trim().toLowerCase()
+  const filteredChannels = browsableChannels.filter(channel =>
+    channel.name.toLowerCase().includes(normalizedQuery) ||
+    channel.description?.toLowerCase().includes(normalizedQuery)
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Hash className="h-5 w-5" />
+            <span>Browse channels</span>
+          </DialogTitle>
+          <DialogDescription>
+            Join channels to add them to your sidebar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by channel name or description"
+            className="pl-9"
+          />
+        </div>
+
+        <ScrollArea className="h-80 border border-border rounded-md">
+          {filteredChannels.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No channels found
+            </p>
+          ) : (
+            <div className="p-1">
+              {filteredChannels.map((channel) => {
+                const isJoined = joinedChannelIds.includes(channel.id)
+                const isPrivate = Number(channel.isPrivate) > 0
+                const isArchived = Number(channel.isArchived) > 0
+                const memberCount = memberCounts[channel.id] || 0
+                return (
+                  <div
+                    key={channel.id}
+                    className="flex items-center justify-between p-2 rounded-md hover:bg-muted cursor-pointer"
+                    onClick={() => handleOpenChannel(channel.id)}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-1 text-sm font-medium">
+                        {isPrivate ? (
+                          <Lock className="h-3 w-3 text-muted-foreground" />
+                        ) : (
+                          <Hash className="h-3 w-3 text-muted-foreground" />
+                        )}
+                        <span className="truncate">{channel.name}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {isArchived && <span className="mr-1">Archived ·</span>}
+                        {isJoined && (
+                          <span className="inline-flex items-center text-slack-green mr-1">
+                            <Check className="h-3 w-3 mr-0.5" />
+                            Joined ·
+                          </span>
+                        )}
+                        {memberCount} {memberCount === 1 ? 'member' : 'members'}
+                        {channel.description && ` · ${channel.description}`}
+                      </div>
+                    </div>
+                    {/* Private channels are left from their member list, where leaving is confirmed */}
+                    {!isPrivate && !isArchived && (
+                      <Button
+                        variant={isJoined ? 'outline' : 'default'}
+                        size="sm"
+                        disabled={pendingChannelId === channel.id}
+                        className={isJoined ? '' : 'bg-slack-green hover:bg-slack-active'}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleToggleMembership(channel)
+                        }}
+                      >
+                        {isJoined ? 'Leave' : 'Join'}
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { 
   Dialog, 
   DialogContent, 
@@ -11,15 +12,16 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ScrollArea } from '@/components/ui/scroll-area'
 import { Hash, Lock } from 'lucide-react'
-import { blink } from '@/blink/client'
+import { db } from '@/blink/db'
+import { addChannelMembers } from '@/blink/channel-members'
+import type { User } from '@/blink/types'
 import { useToast } from '@/hooks/use-toast'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
+import { channelPath } from '@/lib/routes'
+import { useProfiles, getDisplayName } from '@/hooks/use-profiles'
+import { useWorkspaceMembers, refreshWorkspaceChannels } from '@/hooks/use-workspace-store'
 
 interface CreateChannelDialogProps {
   open: boolean
@@ -37,8 +39,20 @@ export function CreateChannelDialog({
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
   const [isPrivate, setIsPrivate] = useState(false)
+  const [invitedIds, setInvitedIds] = useState<string[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
+  const navigate = useNavigate()
+  const workspaceMembers = useWorkspaceMembers(open && isPrivate ? activeGroup : null)
+  const inviteCandidates = workspaceMembers.filter(member => member.userId !== user.id)
+  const profiles = useProfiles(inviteCandidates.map(member => member.userId))
+
+  const toggleInvite = (userId: string) => {
+    setInvitedIds(prev => prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]
+    )
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -49,8 +63,7 @@ export function CreateChannelDialog({
     
     try {
       // Create channel
-      await blink.db.channels.create({
-        id: `channel_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const channel = await db.channels.create({
         groupId: activeGroup,
         name: name.trim().toLowerCase().replace(/\s+/g, '-'),
         description: description.trim() || undefined,
@@ -58,6 +71,9 @@ export function CreateChannelDialog({
         createdBy: user.id
       })
 
+      // The creator is the channel's first member; private channels start with their invitees
+      await addChannelMembers(channel.id, isPrivate ? [user.id, ...invitedIds] : [user.id])
+
       toast({
         title: 'Channel created',
         description: `#${name.trim().toLowerCase().replace(/\s+/g, '-')} has been created successfully.`
@@ -67,10 +83,12 @@ export function CreateChannelDialog({
       setName('')
       setDescription('')
       setIsPrivate(false)
+      setInvitedIds([])
       onOpenChange(false)
       
-      // Refresh the page to show new channel
-      window.location.reload()
+      // List the channel in the sidebar, then open it
+      await refreshWorkspaceChannels(activeGroup)
+      navigate(channelPath(activeGroup, channel.id))
     } catch (error) {
       console.error('Error creating channel:', error)
       toast({
@@ -144,6 +162,34 @@ export function CreateChannelDialog({
             />
           </div>
 
+          {isPrivate && (
+            <div className="space-y-2">
+              <Label>Invite people (optional)</Label>
+              <ScrollArea className="h-40 border border-border rounded-md">
+                {inviteCandidates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">
+                    No one else is in this workspace yet
+                  </p>
+                ) : (
+                  <div className="p-1">
+                    {inviteCandidates.map((member) => (
+                      <label
+                        key={member.id}
+                        className="flex items-center space-x-3 p-2 rounded-md hover:bg-muted cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={invitedIds.includes(member.userId)}
+                          onCheckedChange={() => toggleInvite(member.userId)}
+                        />
+                        <span className="text-sm truncate">{getDisplayName(member.userId, profiles[member.userId])}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+          )}
+
           <DialogFooter>
             <Button
               type="button"
@@ -1,4 +1,5 @@
 import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { 
   Dialog, 
   DialogContent, 
@@ -11,14 +12,11 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Building2 } from 'lucide-react'
-import { blink } from '@/blink/client'
+import { createWorkspace } from '@/blink/workspaces'
+import type { User } from '@/blink/types'
 import { useToast } from '@/hooks/use-toast'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
+import { refreshWorkspaces } from '@/hooks/use-workspace-store'
+import { channelPath } from '@/lib/routes'
 
 interface CreateWorkspaceDialogProps {
   open: boolean
@@ -37,6 +35,7 @@ export function CreateWorkspaceDialog({
   const [description, setDescription] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
+  const navigate = useNavigate()
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -46,30 +45,9 @@ export function CreateWorkspaceDialog({
     setIsLoading(true)
     
     try {
-      // Create workspace/group
-      const newGroup = await blink.db.groups.create({
-        id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const { group: newGroup, generalChannel } = await createWorkspace(user.id, {
         name: name.trim(),
-        description: description.trim() || undefined,
-        createdBy: user.id
-      })
-
-      // Add user as admin member
-      await blink.db.groupMembers.create({
-        id: `member_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        groupId: newGroup.id,
-        userId: user.id,
-        role: 'admin'
-      })
-
-      // Create default general channel
-      await blink.db.channels.create({
-        id: `channel_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        groupId: newGroup.id,
-        name: 'general',
-        description: 'General discussion',
-        isPrivate: false,
-        createdBy: user.id
+        description: description.trim() || undefined
       })
 
       toast({
@@ -85,8 +63,10 @@ export function CreateWorkspaceDialog({
       // Notify parent to refresh
       onWorkspaceCreated?.()
       
-      // Refresh the page to show new workspace
-      window.location.reload()
+      // The workspace has to be in the list before opening it, or it's
+      // treated as one the user isn't in
+      await refreshWorkspaces(user.id)
+      navigate(channelPath(newGroup.id, generalChannel.id))
     } catch (error) {
       console.error('Error creating workspace:', error)
       toast({
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { UserCircle } from 'lucide-react'
+import { updateProfile } from '@/blink/profiles'
+import type { User } from '@/blink/types'
+import { useProfile, primeProfile } from '@/hooks/use-profiles'
+import { useToast } from '@/hooks/use-toast'
+
+interface EditProfileDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  user: User
+}
+
+export function EditProfileDialog({ open, onOpenChange, user }: EditProfileDialogProps) {
+  const profile = useProfile(user.id)
+  const [displayName, setDisplayName] = useState('')
+  const [title, setTitle] = useState('')
+  const [timezone, setTimezone] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  // Start from the stored profile each time the dialog is opened
+  useEffect(() => {
+    if (!open) return
+    setDisplayName(profile?.displayName || user.displayName || '')
+    setTitle(profile?.title || '')
+    setTimezone(profile?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone)
+  }, [open, profile, user.displayName])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!displayName.trim()) return
+
+    setIsLoading(true)
+
+    try {
+      const updated = await updateProfile(user.id, {
+        displayName: displayName.trim(),
+        title: title.trim(),
+        timezone: timezone.trim() || undefined
+      })
+      primeProfile({ ...profile, ...updated, id: user.id, email: user.email })
+
+      toast({
+        title: 'Profile updated',
+        description: 'Your changes are visible to everyone in your workspaces.'
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error updating profile:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update profile. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <UserCircle className="h-5 w-5" />
+            <span>Edit profile</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profile-display-name">Display name</Label>
+            <Input
+              id="profile-display-name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              placeholder="How your name appears in messages"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-title">Title (optional)</Label>
+            <Input
+              id="profile-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Product Designer"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-timezone">Time zone</Label>
+            <Input
+              id="profile-timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="e.g. Europe/Berlin"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!displayName.trim() || isLoading}
+              className="bg-slack-green hover:bg-slack-active"
+            >
+              {isLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
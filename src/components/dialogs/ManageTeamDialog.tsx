@@ -0,0 +1,425 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Users, Link, Mail, Copy, Trash2, UserMinus } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  listWorkspaceMembers,
+  updateWorkspaceMemberRole,
+  removeWorkspaceMember
+} from '@/blink/workspace-members'
+import {
+  listInvitations,
+  createInvitation,
+  sendInvitationEmail,
+  revokeInvitation,
+  getInvitationLink,
+  isInvitationExpired,
+  isInvitationUsedUp
+} from '@/blink/invitations'
+import type { User, WorkspaceInvitation, WorkspaceMember } from '@/blink/types'
+import { hasPermission, canManageRole, getAssignableRoles, getRoleLabel } from '@/lib/permissions'
+import { useProfiles, getDisplayName, getInitials } from '@/hooks/use-profiles'
+import { useToast } from '@/hooks/use-toast'
+import { refreshWorkspaceMembers, refreshWorkspaces } from '@/hooks/use-workspace-store'
+
+interface ManageTeamDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  groupId: string | null
+  workspaceName: string
+  user: User
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' }
+]
+
+export function ManageTeamDialog({
+  open,
+  onOpenChange,
+  groupId,
+  workspaceName,
+  user
+}: ManageTeamDialogProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [memberToRemove, setMemberToRemove] = useState<WorkspaceMember | null>(null)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState('member')
+  const [inviteExpiry, setInviteExpiry] = useState('7')
+  const [inviteSingleUse, setInviteSingleUse] = useState(true)
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false)
+  const profiles = useProfiles(members.map(member => member.userId))
+  const { toast } = useToast()
+
+  const loadTeam = useCallback(async () => {
+    if (!groupId) return
+
+    try {
+      const [membersData, invitationsData] = await Promise.all([
+        listWorkspaceMembers(groupId),
+        listInvitations(groupId)
+      ])
+      setMembers(membersData)
+      setInvitations(invitationsData)
+    } catch (error) {
+      console.error('Error loading team:', error)
+    }
+  }, [groupId])
+
+  useEffect(() => {
+    if (open) loadTeam()
+  }, [open, loadTeam])
+
+  const currentRole = members.find(member => member.userId === user.id)?.role
+  const canInvite = hasPermission(currentRole, 'workspace.invite')
+  const assignableRoles = getAssignableRoles(currentRole)
+  const ownerCount = members.filter(member => member.role === 'owner').length
+  const pendingInvitations = invitations.filter(invitation =>
+    !isInvitationExpired(invitation) && !isInvitationUsedUp(invitation)
+  )
+
+  // Current user first, then alphabetical
+  const sortedMembers = [...members].sort((a, b) => {
+    if (a.userId === user.id) return -1
+    if (b.userId === user.id) return 1
+    return getDisplayName(a.userId, profiles[a.userId]).localeCompare(getDisplayName(b.userId, profiles[b.userId]))
+  })
+
+  const handleRoleChange = async (member: WorkspaceMember, role: string) => {
+    try {
+      await updateWorkspaceMemberRole(member.id, role)
+      setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m))
+      refreshWorkspaceMembers(member.groupId)
+      if (member.userId === user.id) refreshWorkspaces(user.id)
+    } catch (error) {
+      console.error('Error updating member role:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to change the role. Please try again.',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const confirmRemoveMember = async () => {
+    if (!memberToRemove || !groupId) return
+
+    try {
+      await removeWorkspaceMember(groupId, memberToRemove.userId)
+      setMembers(prev => prev.filter(m => m.id !== memberToRemove.id))
+      refreshWorkspaceMembers(groupId)
+      toast({
+        title: 'Member removed',
+        description: `${getDisplayName(memberToRemove.userId, profiles[memberToRemove.userId])} no longer has access to ${workspaceName}.`
+      })
+    } catch (error) {
+      console.error('Error removing member:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the member. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setMemberToRemove(null)
+    }
+  }
+
+  const copyInvitationLink = async (invitation: WorkspaceInvitation) => {
+    await navigator.clipboard.writeText(getInvitationLink(invitation))
+    toast({
+      title: 'Invite link copied',
+      description: 'Anyone with the link can join until it expires or is used up.'
+    })
+  }
+
+  const handleCreateInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!groupId) return
+
+    const email = inviteEmail.trim()
+    setIsCreatingInvite(true)
+
+    try {
+      const invitation = await createInvitation({
+        groupId,
+        invitedBy: user.id,
+        role: inviteRole,
+        email: email || undefined,
+        singleUse: inviteSingleUse,
+        expiresInDays: inviteExpiry === 'never' ? null : Number(inviteExpiry)
+      })
+      setInvitations(prev => [invitation, ...prev])
+
+      if (email) {
+        await sendInvitationEmail(invitation, workspaceName, getDisplayName(user.id, profiles[user.id]))
+        toast({
+          title: 'Invitation sent',
+          description: `We emailed an invite to ${email}.`
+        })
+        setInviteEmail('')
+      } else {
+        await copyInvitationLink(invitation)
+      }
+    } catch (error) {
+      console.error('Error creating invitation:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to create the invitation. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsCreatingInvite(false)
+    }
+  }
+
+  const handleRevokeInvite = async (invitation: WorkspaceInvitation) => {
+    try {
+      await revokeInvitation(invitation.id)
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id))
+    } catch (error) {
+      console.error('Error revoking invitation:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke the invitation. Please try again.',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Manage team</span>
+          </DialogTitle>
+          <DialogDescription>
+            People in {workspaceName} and the invitations waiting for them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="members">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="members">Members ({members.length})</TabsTrigger>
+            <TabsTrigger value="invitations">Invitations ({pendingInvitations.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="members">
+            <ScrollArea className="h-80 border border-border rounded-md">
+              <div className="p-1">
+                {sortedMembers.map((member) => {
+                  const profile = profiles[member.userId]
+                  const isSelf = member.userId === user.id
+                  // A workspace always keeps at least one owner
+                  const isLastOwner = member.role === 'owner' && ownerCount <= 1
+                  const canManage = canManageRole(currentRole, member.role) && !isLastOwner
+                  return (
+                    <div key={member.id} className="flex items-center justify-between p-2 rounded-md hover:bg-muted">
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={profile?.avatarUrl} />
+                          <AvatarFallback className="bg-slack-green text-white text-xs">
+                            {getInitials(member.userId, profile)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">
+                            {getDisplayName(member.userId, profile)}{isSelf && ' (you)'}
+                          </div>
+                          {profile?.email && (
+                            <div className="text-xs text-muted-foreground truncate">{profile.email}</div>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        {canManage ? (
+                          <Select value={member.role} onValueChange={(role) => handleRoleChange(member, role)}>
+                            <SelectTrigger className="h-8 w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {assignableRoles.map(role => (
+                                <SelectItem key={role} value={role}>{getRoleLabel(role)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant="secondary">{getRoleLabel(member.role)}</Badge>
+                        )}
+                        {canManage && !isSelf && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setMemberToRemove(member)}
+                            className="h-8 w-8 p-0"
+                            title="Remove from workspace"
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="invitations" className="space-y-4">
+            {canInvite ? (
+              <form onSubmit={handleCreateInvite} className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email">Email (leave empty for a shareable link)</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="name@example.com"
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Select value={inviteRole} onValueChange={setInviteRole}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map(role => (
+                        <SelectItem key={role} value={role}>{getRoleLabel(role)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={inviteExpiry} onValueChange={setInviteExpiry}>
+                    <SelectTrigger className="w-32" title="Expires after">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center space-x-2 ml-auto">
+                    <Switch id="invite-single-use" checked={inviteSingleUse} onCheckedChange={setInviteSingleUse} />
+                    <Label htmlFor="invite-single-use">Single use</Label>
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  disabled={isCreatingInvite}
+                  className="w-full bg-slack-green hover:bg-slack-active"
+                >
+                  {inviteEmail.trim() ? <Mail className="h-4 w-4 mr-2" /> : <Link className="h-4 w-4 mr-2" />}
+                  {isCreatingInvite ? 'Creating...' : inviteEmail.trim() ? 'Send invite' : 'Create invite link'}
+                </Button>
+              </form>
+            ) : (
+              <p className="text-sm text-muted-foreground">Only owners and admins can invite people to this workspace.</p>
+            )}
+
+            <ScrollArea className="h-48 border border-border rounded-md">
+              {pendingInvitations.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No pending invitations
+                </p>
+              ) : (
+                <div className="p-1">
+                  {pendingInvitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between p-2 rounded-md hover:bg-muted">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium truncate">
+                          {invitation.email || 'Invite link'}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {getRoleLabel(invitation.role)}
+                          {Number(invitation.singleUse) > 0 ? ' · single use' : ` · used ${Number(invitation.useCount)} times`}
+                          {invitation.expiresAt
+                            ? ` · expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`
+                            : ' · never expires'}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyInvitationLink(invitation)}
+                          className="h-8 w-8 p-0"
+                          title="Copy invite link"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        {canInvite && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevokeInvite(invitation)}
+                            className="h-8 w-8 p-0"
+                            title="Revoke invitation"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        <AlertDialog open={!!memberToRemove} onOpenChange={(nextOpen) => !nextOpen && setMemberToRemove(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove from workspace</AlertDialogTitle>
+              <AlertDialogDescription>
+                {memberToRemove && getDisplayName(memberToRemove.userId, profiles[memberToRemove.userId])} will lose
+                access to every channel and conversation in {workspaceName}.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={confirmRemoveMember}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Remove
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { History } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Badge } from '@/components/ui/badge'
+import { format } from 'date-fns'
+import { db } from '@/blink/db'
+import type { Message, MessageRevision } from '@/blink/types'
+import { safeRehypePlugins } from '@/lib/sanitize'
+
+interface MessageHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  message: Message
+}
+
+export function MessageHistoryDialog({ open, onOpenChange, message }: MessageHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([])
+  const [loading, setLoading] = useState(false)
+
+  // Load revisions whenever the dialog is opened
+  useEffect(() => {
+    if (!open) return
+
+    const loadRevisions = async () => {
+      setLoading(true)
+      try {
+        const revisionsData = await db.messageRevisions.list({
+          where: { messageId: message.id },
+          orderBy: { createdAt: 'asc' }
+        })
+        setRevisions(revisionsData)
+      } catch (error) {
+        console.error('Error loading message history:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadRevisions()
+  }, [open, message.id, message.editedAt])
+
+  // Each revision stores the content that was replaced, so the version it
+  // describes was written at the previous revision's time (or at creation)
+  const versions = [
+    ...revisions.map((revision, index) => ({
+      id: revision.id,
+      content: revision.content,
+      timestamp: index === 0 ? message.createdAt : revisions[index - 1].createdAt,
+      isCurrent: false
+    })),
+    {
+      id: 'current',
+      content: message.content,
+      timestamp: message.editedAt || message.createdAt,
+      isCurrent: true
+    }
+  ].reverse()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Edit history</span>
+          </DialogTitle>
+          <DialogDescription>
+            Every saved version of this message, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="w-5 h-5 border-2 border-slack-purple border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-3 pr-3">
+              {versions.map((version) => (
+                <div key={version.id} className="border border-border rounded-md p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(version.timestamp), 'MMM d, yyyy h:mm a')}
+                    </span>
+                    {version.isCurrent && (
+                      <Badge variant="secondary" className="text-xs">Current</Badge>
+                    )}
+                  </div>
+                  <div className="markdown-content text-sm text-foreground">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={safeRehypePlugins}>
+                      {version.content}
+                    </ReactMarkdown>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { MessageCircle, Search } from 'lucide-react'
+import { db } from '@/blink/db'
+import { addChannelMembers } from '@/blink/channel-members'
+import type { User, WorkspaceMember } from '@/blink/types'
+import { useToast } from '@/hooks/use-toast'
+import { useProfiles, getDisplayName, getInitials } from '@/hooks/use-profiles'
+
+interface NewDirectMessageDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  activeGroup: string | null
+  user: User
+  onConversationStarted: (channelId: string) => void
+}
+
+// Group DMs are meant for small conversations; bigger groups should use a channel
+const MAX_DM_PARTICIPANTS = 8
+
+export function NewDirectMessageDialog({
+  open,
+  onOpenChange,
+  activeGroup,
+  user,
+  onConversationStarted
+}: NewDirectMessageDialogProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [query, setQuery] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+  const profiles = useProfiles(members.map(member => member.userId))
+  const getMemberLabel = (userId: string) => getDisplayName(userId, profiles[userId])
+
+  // Load workspace members whenever the dialog is opened
+  useEffect(() => {
+    if (!open || !activeGroup) return
+
+    const loadMembers = async () => {
+      try {
+        const membersData = await db.groupMembers.list({
+          where: { groupId: activeGroup }
+        })
+        setMembers(membersData.filter((member: WorkspaceMember) => member.userId !== user.id))
+      } catch (error) {
+        console.error('Error loading workspace members:', error)
+      }
+    }
+
+    loadMembers()
+  }, [open, activeGroup, user.id])
+
+  const toggleMember = (userId: string) => {
+    setSelectedIds(prev => prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]
+    )
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSelectedIds([])
+      setQuery('')
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!activeGroup || selectedIds.length === 0) return
+
+    setIsLoading(true)
+
+    try {
+      const participantIds = [user.id, ...selectedIds].sort()
+      const dmKey = participantIds.join(',')
+
+      // Reuse the existing conversation for the same set of people
+      const existing = await db.channels.list({
+        where: { groupId: activeGroup, dmKey },
+        limit: 1
+      })
+
+      if (existing.length > 0) {
+        onConversationStarted(existing[0].id)
+        handleOpenChange(false)
+        return
+      }
+
+      const channel = await db.channels.create({
+        groupId: activeGroup,
+        name: [user.displayName || user.email, ...selectedIds.map(getMemberLabel)].join(', '),
+        isPrivate: 1,
+        isDirect: 1,
+        dmKey,
+        createdBy: user.id
+      })
+
+      await addChannelMembers(channel.id, participantIds)
+
+      onConversationStarted(channel.id)
+      handleOpenChange(false)
+    } catch (error) {
+      console.error('Error starting conversation:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to start conversation. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const normalizedQuery = query.trim().toLowerCase()
+  const filteredMembers = members.filter(member => {
+    const profile = profiles[member.userId]
+    return [getMemberLabel(member.userId), profile?.email, profile?.title]
+      .some(value => value?.toLowerCase().includes(normalizedQuery))
+  })
+  const isAtLimit = selectedIds.length >= MAX_DM_PARTICIPANTS - 1
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <MessageCircle className="h-5 w-5" />
+            <span>New message</span>
+          </DialogTitle>
+          <DialogDescription>
+            Pick one person for a direct message, or up to {MAX_DM_PARTICIPANTS - 1} for a group conversation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Find members"
+              className="pl-9"
+            />
+          </div>
+
+          <ScrollArea className="h-60 border border-border rounded-md">
+            {filteredMembers.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No other members in this workspace yet
+              </p>
+            ) : (
+              <div className="p-1">
+                {filteredMembers.map((member) => {
+                  const isSelected = selectedIds.includes(member.userId)
+                  return (
+                    <label
+                      key={member.id}
+                      className="flex items-center space-x-3 p-2 rounded-md hover:bg-muted cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={isSelected}
+                        disabled={!isSelected && isAtLimit}
+                        onCheckedChange={() => toggleMember(member.userId)}
+                      />
+                      <Avatar className="h-6 w-6">
+                        <AvatarImage src={profiles[member.userId]?.avatarUrl} />
+                        <AvatarFallback className="bg-slack-green text-white text-xs">
+                          {getInitials(member.userId, profiles[member.userId])}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <div className="text-sm truncate">{getMemberLabel(member.userId)}</div>
+                        {profiles[member.userId]?.title && (
+                          <div className="text-xs text-muted-foreground truncate">
+                            {profiles[member.userId]?.title}
+                          </div>
+                        )}
+                      </div>
+                    </label>
+                  )
+                })}
+              </div>
+            )}
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={selectedIds.length === 0 || isLoading}
+              className="bg-slack-green hover:bg-slack-active"
+            >
+              {isLoading ? 'Starting...' : 'Start conversation'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
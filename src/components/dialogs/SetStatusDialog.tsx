@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Smile } from 'lucide-react'
+import { EmojiPicker } from '@/components/chat/EmojiPicker'
+import { updateProfile } from '@/blink/profiles'
+import type { User, UserProfile } from '@/blink/types'
+import { useProfile, primeProfile } from '@/hooks/use-profiles'
+import { useToast } from '@/hooks/use-toast'
+import { getCustomStatus, getStatusExpiry, STATUS_DURATIONS } from '@/lib/presence'
+import type { StatusDuration } from '@/lib/presence'
+
+interface SetStatusDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  user: User
+}
+
+const STATUS_TEXT_MAX_LENGTH = 100
+
+export function SetStatusDialog({ open, onOpenChange, user }: SetStatusDialogProps) {
+  const profile = useProfile(user.id)
+  const [emoji, setEmoji] = useState('')
+  const [text, setText] = useState('')
+  const [duration, setDuration] = useState<StatusDuration>('today')
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+  const wasResetRef = useRef(false)
+
+  const currentStatus = getCustomStatus(profile)
+  const currentEmoji = currentStatus?.emoji || ''
+  const currentText = currentStatus?.text || ''
+  const currentDuration: StatusDuration = currentStatus && !profile?.statusExpiresAt ? 'never' : 'today'
+
+  // Start from the current status each time the dialog is opened. The profile
+  // refreshing while it's open doesn't wipe what's being typed.
+  useEffect(() => {
+    if (!open) {
+      wasResetRef.current = false
+      return
+    }
+    if (wasResetRef.current) return
+    wasResetRef.current = true
+
+    setEmoji(currentEmoji)
+    setText(currentText)
+    setDuration(currentDuration)
+  }, [open, currentEmoji, currentText, currentDuration])
+
+  const saveStatus = async (data: Pick<UserProfile, 'statusEmoji' | 'statusText' | 'statusExpiresAt'>) => {
+    setIsLoading(true)
+
+    try {
+      const updated = await updateProfile(user.id, data)
+      primeProfile({ ...profile, ...updated, id: user.id, email: user.email })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error updating status:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update your status. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!emoji && !text.trim()) return
+
+    await saveStatus({
+      statusEmoji: emoji || '💬',
+      statusText: text.trim(),
+      statusExpiresAt: getStatusExpiry(duration) ?? ''
+    })
+  }
+
+  const handleClear = () => saveStatus({ statusEmoji: '', statusText: '', statusExpiresAt: '' })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Smile className="h-5 w-5" />
+            <span>Set a status</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="status-text">What's your status?</Label>
+            <div className="flex items-center space-x-2">
+              <EmojiPicker onSelect={setEmoji} align="start">
+                <Button type="button" variant="outline" size="icon" className="shrink-0" aria-label="Choose emoji">
+                  {emoji ? <span className="text-lg">{emoji}</span> : <Smile className="h-4 w-4" />}
+                </Button>
+              </EmojiPicker>
+              <Input
+                id="status-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="e.g. In a meeting"
+                maxLength={STATUS_TEXT_MAX_LENGTH}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="status-duration">Clear after</Label>
+            <Select value={duration} onValueChange={(value) => setDuration(value as StatusDuration)}>
+              <SelectTrigger id="status-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_DURATIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            {currentStatus && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={handleClear}
+                disabled={isLoading}
+                className="sm:mr-auto"
+              >
+                Clear status
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={(!emoji && !text.trim()) || isLoading}
+              className="bg-slack-green hover:bg-slack-active"
+            >
+              {isLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
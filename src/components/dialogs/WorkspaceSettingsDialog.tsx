@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Settings } from 'lucide-react'
+import { db } from '@/blink/db'
+import type { Group, User } from '@/blink/types'
+import { useToast } from '@/hooks/use-toast'
+import { refreshWorkspaces } from '@/hooks/use-workspace-store'
+
+interface WorkspaceSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  group: Group | undefined
+  user: User
+}
+
+export function WorkspaceSettingsDialog({ open, onOpenChange, group, user }: WorkspaceSettingsDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  // Start from the saved settings each time the dialog is opened
+  useEffect(() => {
+    if (!open || !group) return
+    setName(group.name)
+    setDescription(group.description || '')
+  }, [open, group])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!group || !name.trim()) return
+
+    setIsLoading(true)
+
+    try {
+      await db.groups.update(group.id, {
+        name: name.trim(),
+        description: description.trim() || undefined
+      })
+
+      toast({
+        title: 'Workspace updated',
+        description: 'Your changes have been saved.'
+      })
+      onOpenChange(false)
+
+      // Show the new name in the workspace switcher and header
+      refreshWorkspaces(user.id)
+    } catch (error) {
+      console.error('Error updating workspace:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update workspace. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Settings className="h-5 w-5" />
+            <span>Workspace settings</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-settings-name">Workspace name</Label>
+            <Input
+              id="workspace-settings-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="workspace-settings-description">Description (optional)</Label>
+            <Textarea
+              id="workspace-settings-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What's this workspace for?"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!name.trim() || isLoading}
+              className="bg-slack-green hover:bg-slack-active"
+            >
+              {isLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
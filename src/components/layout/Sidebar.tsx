@@ -1,16 +1,23 @@
 import React, { useState } from 'react'
 import { 
   Hash, 
+  Lock, 
   Plus, 
   Settings, 
   Users, 
   Bot, 
   ChevronDown, 
   ChevronRight,
-  LogOut
+  LogOut,
+  MessageCircle,
+  UserCircle,
+  Compass,
+  CheckCheck,
+  Smile,
+  Pencil
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -20,59 +27,111 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { CreateChannelDialog } from '@/components/dialogs/CreateChannelDialog'
 import { CreateWorkspaceDialog } from '@/components/dialogs/CreateWorkspaceDialog'
+import { ManageTeamDialog } from '@/components/dialogs/ManageTeamDialog'
+import { WorkspaceSettingsDialog } from '@/components/dialogs/WorkspaceSettingsDialog'
+import { NewDirectMessageDialog } from '@/components/dialogs/NewDirectMessageDialog'
+import { EditProfileDialog } from '@/components/dialogs/EditProfileDialog'
+import { SetStatusDialog } from '@/components/dialogs/SetStatusDialog'
+import { BrowseChannelsDialog } from '@/components/dialogs/BrowseChannelsDialog'
+import { SidebarChannelItem } from '@/components/layout/SidebarChannelItem'
+import { PresenceDot } from '@/components/chat/PresenceDot'
 import { blink } from '@/blink/client'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
-
-interface Group {
-  id: string
-  name: string
-  description?: string
-  createdBy: string
-  createdAt: string
-}
-
-interface Channel {
-  id: string
-  groupId: string
-  name: string
-  description?: string
-  isPrivate: boolean
-  createdBy: string
-  createdAt: string
-}
+import type { Channel, ChannelMember, Group, User } from '@/blink/types'
+import { hasPermission } from '@/lib/permissions'
+import { getCustomStatus, PRESENCE_LABELS } from '@/lib/presence'
+import { useProfiles, getDisplayName, getInitials } from '@/hooks/use-profiles'
+import { useUnreadCounts, markChannelRead } from '@/hooks/use-unread'
+import { usePresence } from '@/hooks/use-presence'
+import { useDrafts } from '@/hooks/use-drafts'
 
 interface SidebarProps {
   groups: Group[]
   channels: Channel[]
+  dmMembers: ChannelMember[]
+  joinedChannelIds: string[]
   activeGroup: string | null
   activeChannel: string | null
+  role?: string
   onGroupSelect: (groupId: string) => void
   onChannelSelect: (channelId: string) => void
+  onMembershipChange: () => void
   user: User
   onAIToggle: () => void
+  isDraftsOpen: boolean
+  onDraftsOpen: () => void
 }
 
 export function Sidebar({
   groups,
   channels,
+  dmMembers,
+  joinedChannelIds,
   activeGroup,
   activeChannel,
+  role,
   onGroupSelect,
   onChannelSelect,
+  onMembershipChange,
   user,
-  onAIToggle
+  onAIToggle,
+  isDraftsOpen,
+  onDraftsOpen
 }: SidebarProps) {
   const [isChannelsExpanded, setIsChannelsExpanded] = useState(true)
   const [showCreateChannel, setShowCreateChannel] = useState(false)
   const [showCreateWorkspace, setShowCreateWorkspace] = useState(false)
+  const [isDirectMessagesExpanded, setIsDirectMessagesExpanded] = useState(true)
+  const [showNewDirectMessage, setShowNewDirectMessage] = useState(false)
+  const [showEditProfile, setShowEditProfile] = useState(false)
+  const [showSetStatus, setShowSetStatus] = useState(false)
+  const [showBrowseChannels, setShowBrowseChannels] = useState(false)
+  const [showManageTeam, setShowManageTeam] = useState(false)
+  const [showWorkspaceSettings, setShowWorkspaceSettings] = useState(false)
+  const profiles = useProfiles([user.id, ...dmMembers.map(m => m.userId)])
+  const ownProfile = profiles[user.id]
+  const ownName = ownProfile?.displayName || user.displayName || user.email
+  const ownPresence = usePresence(user.id)
+  const ownStatus = getCustomStatus(ownProfile)
 
   const activeGroupData = groups.find(g => g.id === activeGroup)
-  const groupChannels = channels.filter(c => c.groupId === activeGroup)
+  const workspaceChannels = channels.filter(c => c.groupId === activeGroup && !Number(c.isDirect))
+  const groupChannels = workspaceChannels.filter(c => joinedChannelIds.includes(c.id) && !Number(c.isArchived))
+  const directMessages = channels.filter(c => c.groupId === activeGroup && Number(c.isDirect))
+  const unreadCounts = useUnreadCounts(user.id, [...groupChannels, ...directMessages].map(c => c.id))
+  const hasUnreadInWorkspace = Object.values(unreadCounts).some(unread => unread.count > 0)
+  const drafts = useDrafts()
+  // The open channel's own draft is still in its composer, so it isn't flagged
+  const draftChannelIds = new Set(drafts.filter(draft => !draft.threadId && draft.channelId !== activeChannel).map(draft => draft.channelId))
+
+  const handleMarkAllRead = () => {
+    for (const channel of [...groupChannels, ...directMessages]) {
+      markChannelRead(user.id, channel.id)
+    }
+  }
+
+  const getOtherDirectMessageMembers = (channel: Channel) =>
+    dmMembers
+      .filter(m => m.channelId === channel.id && m.userId !== user.id)
+      .map(m => m.userId)
+
+  // Name a conversation after everyone in it except the current user
+  const getDirectMessageLabel = (channel: Channel) => {
+    const otherIds = getOtherDirectMessageMembers(channel)
+    if (otherIds.length === 0) return `${ownName} (you)`
+    return otherIds.map(id => getDisplayName(id, profiles[id])).join(', ')
+  }
+
+  // One-to-one conversations show the other person's presence; group DMs keep the generic icon
+  const getDirectMessageIcon = (channel: Channel) => {
+    const otherIds = getOtherDirectMessageMembers(channel)
+    if (otherIds.length > 1) return <MessageCircle className="h-4 w-4 mr-2" />
+
+    return (
+      <span className="flex h-4 w-4 mr-2 items-center justify-center">
+        <PresenceDot userId={otherIds[0] || user.id} ringClassName="ring-slack-sidebar" />
+      </span>
+    )
+  }
 
   const handleLogout = () => {
     blink.auth.logout()
@@ -102,6 +161,16 @@ export function Sidebar({
               </DropdownMenuItem>
             ))}
             <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={handleMarkAllRead} disabled={!hasUnreadInWorkspace}>
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Mark all read in workspace
+            </DropdownMenuItem>
+            {hasPermission(role, 'workspace.settings') && (
+              <DropdownMenuItem onClick={() => setShowWorkspaceSettings(true)}>
+                <Settings className="h-4 w-4 mr-2" />
+                Workspace Settings
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={() => setShowCreateWorkspace(true)}>
               <Plus className="h-4 w-4 mr-2" />
               Create Workspace
@@ -116,13 +185,28 @@ export function Sidebar({
           {/* AI Assistant */}
           <Button
             variant="ghost"
-            className="w-full justify-start text-white hover:bg-slack-hover mb-4"
+            className="w-full justify-start text-white hover:bg-slack-hover mb-1"
             onClick={onAIToggle}
           >
             <Bot className="h-4 w-4 mr-3" />
             AI Assistant
           </Button>
 
+          {/* Drafts */}
+          <Button
+            variant="ghost"
+            className={`w-full justify-start text-white hover:bg-slack-hover mb-4 ${
+              isDraftsOpen ? 'bg-slack-active' : ''
+            }`}
+            onClick={onDraftsOpen}
+          >
+            <Pencil className="h-4 w-4 mr-3" />
+            Drafts
+            {drafts.length > 0 && (
+              <span className="ml-auto text-xs text-gray-300">{drafts.length}</span>
+            )}
+          </Button>
+
           {/* Channels Section */}
           <div className="mb-4">
             <Button
@@ -136,33 +220,91 @@ export function Sidebar({
                 <ChevronRight className="h-4 w-4 mr-2" />
               )}
               <span className="text-sm font-medium">Channels</span>
+              {hasPermission(role, 'channel.create') && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-6 w-6 p-0 hover:bg-slack-hover"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setShowCreateChannel(true)
+                  }}
+                >
+                  <Plus className="h-3 w-3" />
+                </Button>
+              )}
+            </Button>
+
+            {isChannelsExpanded && (
+              <div className="ml-2 mt-1">
+                {groupChannels.map((channel) => (
+                  <SidebarChannelItem
+                    key={channel.id}
+                    icon={Number(channel.isPrivate) > 0 ? (
+                      <Lock className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Hash className="h-4 w-4 mr-2" />
+                    )}
+                    label={channel.name}
+                    isActive={activeChannel === channel.id}
+                    unread={unreadCounts[channel.id]}
+                    hasDraft={draftChannelIds.has(channel.id)}
+                    onSelect={() => onChannelSelect(channel.id)}
+                    onMarkRead={() => markChannelRead(user.id, channel.id)}
+                  />
+                ))}
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start text-gray-300 hover:text-white hover:bg-slack-hover p-2"
+                  onClick={() => setShowBrowseChannels(true)}
+                >
+                  <Compass className="h-4 w-4 mr-2" />
+                  <span className="truncate">Browse channels</span>
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Direct Messages Section */}
+          <div className="mb-4">
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-white hover:bg-slack-hover p-2"
+              onClick={() => setIsDirectMessagesExpanded(!isDirectMessagesExpanded)}
+            >
+              {isDirectMessagesExpanded ? (
+                <ChevronDown className="h-4 w-4 mr-2" />
+              ) : (
+                <ChevronRight className="h-4 w-4 mr-2" />
+              )}
+              <span className="text-sm font-medium">Direct messages</span>
               <Button
                 variant="ghost"
                 size="sm"
                 className="ml-auto h-6 w-6 p-0 hover:bg-slack-hover"
                 onClick={(e) => {
                   e.stopPropagation()
-                  setShowCreateChannel(true)
+                  setShowNewDirectMessage(true)
                 }}
               >
                 <Plus className="h-3 w-3" />
               </Button>
             </Button>
 
-            {isChannelsExpanded && (
+            {isDirectMessagesExpanded && (
               <div className="ml-2 mt-1">
-                {groupChannels.map((channel) => (
-                  <Button
+                {directMessages.map((channel) => (
+                  <SidebarChannelItem
                     key={channel.id}
-                    variant="ghost"
-                    className={`w-full justify-start text-white hover:bg-slack-hover p-2 ${
-                      activeChannel === channel.id ? 'bg-slack-active' : ''
-                    }`}
-                    onClick={() => onChannelSelect(channel.id)}
-                  >
-                    <Hash className="h-4 w-4 mr-2" />
-                    <span className="truncate">{channel.name}</span>
-                  </Button>
+                    icon={getDirectMessageIcon(channel)}
+                    label={getDirectMessageLabel(channel)}
+                    isActive={activeChannel === channel.id}
+                    unread={unreadCounts[channel.id]}
+                    hasDraft={draftChannelIds.has(channel.id)}
+                    isDirect
+                    onSelect={() => onChannelSelect(channel.id)}
+                    onMarkRead={() => markChannelRead(user.id, channel.id)}
+                  />
                 ))}
               </div>
             )}
@@ -175,25 +317,41 @@ export function Sidebar({
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" className="w-full justify-start text-white hover:bg-slack-hover">
-              <Avatar className="h-6 w-6 mr-3">
-                <AvatarFallback className="bg-slack-green text-white text-xs">
-                  {user.displayName?.[0] || user.email[0].toUpperCase()}
-                </AvatarFallback>
-              </Avatar>
-              <div className="flex-1 text-left">
+              <div className="relative mr-3">
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={ownProfile?.avatarUrl} />
+                  <AvatarFallback className="bg-slack-green text-white text-xs">
+                    {ownProfile ? getInitials(user.id, ownProfile) : user.email[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <PresenceDot userId={user.id} ringClassName="ring-slack-sidebar" className="absolute -bottom-0.5 -right-0.5" />
+              </div>
+              <div className="flex-1 min-w-0 text-left">
                 <div className="text-sm font-medium truncate">
-                  {user.displayName || user.email}
+                  {ownName}
+                </div>
+                <div className="text-xs text-gray-300 truncate">
+                  {ownStatus
+                    ? `${ownStatus.emoji} ${ownStatus.text || PRESENCE_LABELS[ownPresence]}`
+                    : PRESENCE_LABELS[ownPresence]}
                 </div>
-                <div className="text-xs text-gray-300">Online</div>
               </div>
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent className="w-56">
+            <DropdownMenuItem onClick={() => setShowSetStatus(true)}>
+              <Smile className="h-4 w-4 mr-2" />
+              {ownStatus ? 'Update status' : 'Set a status'}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setShowEditProfile(true)}>
+              <UserCircle className="h-4 w-4 mr-2" />
+              Edit Profile
+            </DropdownMenuItem>
             <DropdownMenuItem>
               <Settings className="h-4 w-4 mr-2" />
               Settings
             </DropdownMenuItem>
-            <DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setShowManageTeam(true)} disabled={!activeGroup}>
               <Users className="h-4 w-4 mr-2" />
               Manage Team
             </DropdownMenuItem>
@@ -214,11 +372,56 @@ export function Sidebar({
         user={user}
       />
 
+      <NewDirectMessageDialog
+        open={showNewDirectMessage}
+        onOpenChange={setShowNewDirectMessage}
+        activeGroup={activeGroup}
+        user={user}
+        onConversationStarted={onChannelSelect}
+      />
+
+      <BrowseChannelsDialog
+        open={showBrowseChannels}
+        onOpenChange={setShowBrowseChannels}
+        channels={workspaceChannels}
+        joinedChannelIds={joinedChannelIds}
+        user={user}
+        onChannelSelect={onChannelSelect}
+        onMembershipChange={onMembershipChange}
+      />
+
+      <EditProfileDialog
+        open={showEditProfile}
+        onOpenChange={setShowEditProfile}
+        user={user}
+      />
+
+      <SetStatusDialog
+        open={showSetStatus}
+        onOpenChange={setShowSetStatus}
+        user={user}
+      />
+
       <CreateWorkspaceDialog
         open={showCreateWorkspace}
         onOpenChange={setShowCreateWorkspace}
         user={user}
       />
+
+      <ManageTeamDialog
+        open={showManageTeam}
+        onOpenChange={setShowManageTeam}
+        groupId={activeGroup}
+        workspaceName={activeGroupData?.name || 'this workspace'}
+        user={user}
+      />
+
+      <WorkspaceSettingsDialog
+        open={showWorkspaceSettings}
+        onOpenChange={setShowWorkspaceSettings}
+        group={activeGroupData}
+        user={user}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import type { ReactNode } from 'react'
+import { CheckCheck, Pencil } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger
+} from '@/components/ui/context-menu'
+import type { ChannelUnread } from '@/hooks/use-unread'
+
+interface SidebarChannelItemProps {
+  icon: ReactNode
+  label: string
+  isActive: boolean
+  unread?: ChannelUnread
+  // Every unread direct message is addressed to the user, so DMs show their
+  // unread count in the mention badge
+  isDirect?: boolean
+  // Marks a channel with unsent text in its composer
+  hasDraft?: boolean
+  onSelect: () => void
+  onMarkRead: () => void
+}
+
+const formatBadgeCount = (count: number) => count > 99 ? '99+' : String(count)
+
+export function SidebarChannelItem({
+  icon,
+  label,
+  isActive,
+  unread,
+  isDirect = false,
+  hasDraft = false,
+  onSelect,
+  onMarkRead
+}: SidebarChannelItemProps) {
+  const unreadCount = unread?.count || 0
+  const mentionCount = isDirect ? unreadCount : unread?.mentions || 0
+  const hasUnread = unreadCount > 0
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className={`w-full justify-start text-white hover:bg-slack-hover p-2 ${
+            isActive ? 'bg-slack-active' : ''
+          } ${hasUnread ? 'font-bold' : ''}`}
+          onClick={onSelect}
+        >
+          {icon}
+          <span className="truncate">{label}</span>
+          {hasDraft && <Pencil className="h-3 w-3 ml-1 flex-shrink-0 text-gray-300" />}
+          {mentionCount > 0 ? (
+            <span className="ml-auto rounded-full bg-red-500 px-1.5 text-xs font-semibold text-white">
+              {formatBadgeCount(mentionCount)}
+            </span>
+          ) : hasUnread && (
+            <span className="ml-auto text-xs text-gray-300">{formatBadgeCount(unreadCount)}</span>
+          )}
+        </Button>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuItem onClick={onMarkRead} disabled={!hasUnread}>
+          <CheckCheck className="h-4 w-4 mr-2" />
+          Mark as read
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  )
+}
@@ -0,0 +1,14 @@
+import { useEffect } from 'react'
+import { realtime, channelTopic } from '@/blink/realtime'
+import type { ChannelEvent } from '@/blink/realtime'
+import { useLatestRef } from '@/hooks/use-latest-ref'
+
+export function useChannelEvents(channelId: string | null, onEvent: (event: ChannelEvent) => void) {
+  const handlerRef = useLatestRef(onEvent)
+
+  useEffect(() => {
+    if (!channelId) return
+
+    return realtime.subscribe(channelTopic(channelId), (event) => handlerRef.current(event))
+  }, [channelId, handlerRef])
+}
@@ -0,0 +1,101 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import type { PickedMention } from '@/lib/mentions'
+import { createStore } from '@/lib/store'
+
+// Where a draft was written: a channel, or a thread within it
+export interface DraftLocation {
+  groupId: string
+  channelId: string
+  threadId?: string | null
+  // Shown in the drafts list, which can't look up channels in other workspaces
+  label: string
+}
+
+export interface Draft extends DraftLocation {
+  content: string
+  mentions: PickedMention[]
+  updatedAt: string
+}
+
+// Stored per user, so drafts never show up for another account on a shared browser
+const STORAGE_KEY = 'messageDrafts'
+const storageKey = (userId: string) => `${STORAGE_KEY}:${userId}`
+
+// The signed-in user's unsent composer text per channel and thread, kept in
+// localStorage so it survives switching channels and reloading
+let draftsUserId: string | null = null
+const drafts = createStore<Record<string, Draft>>({})
+
+function loadDrafts(userId: string): Record<string, Draft> {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+const setDrafts = (next: Record<string, Draft>) => {
+  if (draftsUserId) {
+    try {
+      localStorage.setItem(storageKey(draftsUserId), JSON.stringify(next))
+    } catch (error) {
+      console.warn('Failed to save drafts:', error)
+    }
+  }
+  drafts.set(next)
+}
+
+// Switch to the signed-in user's drafts, or none when signed out
+export function setDraftsUser(userId: string | null) {
+  if (userId === draftsUserId) return
+  draftsUserId = userId
+  drafts.set(userId ? loadDrafts(userId) : {})
+}
+
+const draftKey = (channelId: string, threadId?: string | null) => threadId ? `${channelId}:${threadId}` : channelId
+
+export function getDraft(channelId: string, threadId?: string | null): Draft | undefined {
+  return drafts.get()[draftKey(channelId, threadId)]
+}
+
+// Saving empty text removes the draft
+export function saveDraft(location: DraftLocation, content: string, mentions: PickedMention[]) {
+  const key = draftKey(location.channelId, location.threadId)
+  const existing = drafts.get()[key]
+
+  if (!content.trim()) {
+    if (existing) clearDraft(location.channelId, location.threadId)
+    return
+  }
+  if (existing?.content === content && existing.label === location.label) return
+
+  setDrafts({
+    ...drafts.get(),
+    [key]: {
+      ...location,
+      threadId: location.threadId ?? null,
+      content,
+      mentions,
+      updatedAt: new Date().toISOString()
+    }
+  })
+}
+
+export function clearDraft(channelId: string, threadId?: string | null) {
+  const key = draftKey(channelId, threadId)
+  if (!drafts.get()[key]) return
+
+  const next = { ...drafts.get() }
+  delete next[key]
+  setDrafts(next)
+}
+
+// Every draft, most recently edited first
+export function useDrafts(): Draft[] {
+  const currentDrafts = useSyncExternalStore(drafts.subscribe, drafts.get)
+
+  return useMemo(
+    () => Object.values(currentDrafts).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    [currentDrafts]
+  )
+}
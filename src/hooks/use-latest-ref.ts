@@ -0,0 +1,12 @@
+import { useEffect, useRef } from 'react'
+
+// A ref holding the value from the latest render. Effects, timers and
+// listeners that call a prop through it see the current one without
+// re-subscribing every time its identity changes.
+export function useLatestRef<T>(value: T) {
+  const ref = useRef(value)
+  useEffect(() => {
+    ref.current = value
+  })
+  return ref
+}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react'
+import { createId } from '@/blink/db'
+import { saveMessage, updateReplyCount } from '@/blink/messages'
+import { publishChannelEvent } from '@/blink/realtime'
+import type { Message } from '@/blink/types'
+import { useLatestRef } from '@/hooks/use-latest-ref'
+import { createStore } from '@/lib/store'
+
+// queued: waiting to be sent, e.g. until the connection is back
+// sending: request in flight
+// failed: the server rejected it; the user can retry or delete it
+export type DeliveryStatus = 'queued' | 'sending' | 'failed'
+
+export interface OutboxEntry {
+  message: Message
+  status: DeliveryStatus
+}
+
+export type NewMessage = Omit<Message, 'id' | 'replyCount' | 'createdAt' | 'updatedAt'>
+
+// Called once a message is stored; for thread replies, with the parent's new reply count
+type SentListener = (message: Message, replyCount?: number) => void
+
+// Stored per user, so a shared browser never sends one account's messages as another's
+const STORAGE_KEY = 'messageOutbox'
+const storageKey = (userId: string) => `${STORAGE_KEY}:${userId}`
+
+// The signed-in user's messages composed on this client that aren't stored
+// yet, oldest first. Kept in localStorage so nothing typed offline is lost on
+// reload.
+let outboxUserId: string | null = null
+const entries = createStore<OutboxEntry[]>([])
+const sentListeners = new Set<SentListener>()
+let isFlushing = false
+
+function loadEntries(userId: string): OutboxEntry[] {
+  try {
+    const stored: OutboxEntry[] = JSON.parse(localStorage.getItem(storageKey(userId)) || '[]')
+    // A send interrupted by closing the page is tried again
+    return stored.map(entry => entry.status === 'sending' ? { ...entry, status: 'queued' } : entry)
+  } catch {
+    return []
+  }
+}
+
+const setEntries = (next: OutboxEntry[]) => {
+  if (outboxUserId) {
+    try {
+      localStorage.setItem(storageKey(outboxUserId), JSON.stringify(next))
+    } catch (error) {
+      console.warn('Failed to save the message outbox:', error)
+    }
+  }
+  entries.set(next)
+}
+
+const setStatus = (messageId: string, status: DeliveryStatus) => {
+  setEntries(entries.get().map(entry => entry.message.id === messageId ? { ...entry, status } : entry))
+}
+
+const deliver = async (message: Message): Promise<[Message, number | undefined]> => {
+  const saved = await saveMessage(message)
+  publishChannelEvent(saved.channelId, { type: 'message.created', message: saved })
+
+  let replyCount: number | undefined
+  if (saved.threadId) {
+    try {
+      replyCount = await updateReplyCount(saved.threadId)
+      publishChannelEvent(saved.channelId, {
+        type: 'message.updated',
+        message: { id: saved.threadId, replyCount }
+      })
+    } catch (error) {
+      console.error('Error updating reply count:', error)
+    }
+  }
+
+  return [saved, replyCount]
+}
+
+// The oldest queued message in a channel whose queue isn't stopped. A failed
+// message stops its channel's queue, so nothing sent after it arrives
+// before it.
+const nextQueued = () => {
+  const stopped = new Set<string>()
+  for (const entry of entries.get()) {
+    if (stopped.has(entry.message.channelId)) continue
+    if (entry.status === 'failed') stopped.add(entry.message.channelId)
+    if (entry.status === 'queued') return entry
+  }
+  return undefined
+}
+
+// Send queued messages one at a time, in the order they were written. Going
+// offline mid-send puts the message back in the queue rather than failing it.
+async function flushOutbox() {
+  if (isFlushing || !outboxUserId) return
+  isFlushing = true
+
+  try {
+    while (navigator.onLine) {
+      const entry = nextQueued()
+      if (!entry) break
+
+      setStatus(entry.message.id, 'sending')
+      try {
+        const [saved, replyCount] = await deliver(entry.message)
+        // Leave the outbox and join the timeline in the same render
+        setEntries(entries.get().filter(item => item.message.id !== entry.message.id))
+        sentListeners.forEach(listener => listener(saved, replyCount))
+      } catch (error) {
+        console.error('Error sending message:', error)
+        setStatus(entry.message.id, navigator.onLine ? 'failed' : 'queued')
+      }
+    }
+  } finally {
+    isFlushing = false
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', flushOutbox)
+}
+
+// Switch to the signed-in user's outbox, or none when signed out, and start
+// sending whatever it still holds
+export function setOutboxUser(userId: string | null) {
+  if (userId === outboxUserId) return
+  outboxUserId = userId
+  setEntries(userId ? loadEntries(userId) : [])
+  flushOutbox()
+}
+
+// Show a message straight away and send it as soon as possible
+export function enqueueMessage(data: NewMessage): Message {
+  const now = new Date().toISOString()
+  const message: Message = {
+    ...data,
+    id: createId('msg'),
+    replyCount: 0,
+    createdAt: now,
+    updatedAt: now
+  }
+
+  setEntries([...entries.get(), { message, status: 'queued' }])
+  flushOutbox()
+  return message
+}
+
+export function retryMessage(messageId: string) {
+  setStatus(messageId, 'queued')
+  flushOutbox()
+}
+
+// Dropping a failed message lets the rest of its channel's queue go out
+export function discardMessage(messageId: string) {
+  setEntries(entries.get().filter(entry => entry.message.id !== messageId))
+  flushOutbox()
+}
+
+// Unsent messages for a channel, or for one thread when threadId is given.
+// onSent runs for every message stored in the channel, including replies.
+export function useOutbox(channelId: string | null, threadId: string | null = null, onSent?: SentListener) {
+  const outbox = useSyncExternalStore(entries.subscribe, entries.get)
+  const onSentRef = useLatestRef(onSent)
+
+  useEffect(() => {
+    if (!channelId) return
+
+    const listener: SentListener = (message, replyCount) => {
+      if (message.channelId === channelId) onSentRef.current?.(message, replyCount)
+    }
+    sentListeners.add(listener)
+    return () => {
+      sentListeners.delete(listener)
+    }
+  }, [channelId, onSentRef])
+
+  return useMemo(
+    () => outbox.filter(entry =>
+      entry.message.channelId === channelId &&
+      (entry.message.threadId ?? null) === threadId
+    ),
+    [outbox, channelId, threadId]
+  )
+}
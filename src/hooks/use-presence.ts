@@ -0,0 +1,124 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { realtime, presenceTopic } from '@/blink/realtime'
+import type { PresenceStatus } from '@/lib/presence'
+import { createStore } from '@/lib/store'
+
+type OnlineStatus = Exclude<PresenceStatus, 'offline'>
+
+// Shared, app-wide presence of everyone in the active workspace. Clients
+// announce themselves with a heartbeat on the workspace's presence topic;
+// anyone whose heartbeat stops is treated as offline. Heartbeats only move
+// lastSeenAt, so they don't re-render anything unless a status changes.
+const statuses = createStore<ReadonlyMap<string, OnlineStatus>>(new Map())
+const lastSeenAt = new Map<string, number>()
+
+const HEARTBEAT_INTERVAL = 30 * 1000
+// A little over two missed heartbeats
+const OFFLINE_AFTER = 75 * 1000
+const AWAY_AFTER_IDLE = 5 * 60 * 1000
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'pointerdown', 'focus'] as const
+
+const setEntry = (userId: string, status: OnlineStatus) => {
+  lastSeenAt.set(userId, Date.now())
+  if (statuses.get().get(userId) !== status) {
+    statuses.set(new Map(statuses.get()).set(userId, status))
+  }
+}
+
+const removeEntries = (userIds: string[]) => {
+  const next = new Map(statuses.get())
+  for (const userId of userIds) {
+    lastSeenAt.delete(userId)
+    next.delete(userId)
+  }
+  if (next.size !== statuses.get().size) statuses.set(next)
+}
+
+const pruneStaleEntries = () => {
+  const cutoff = Date.now() - OFFLINE_AFTER
+  removeEntries(Array.from(lastSeenAt).filter(([, seenAt]) => seenAt < cutoff).map(([userId]) => userId))
+}
+
+export function getPresence(userId: string): PresenceStatus {
+  return statuses.get().get(userId) ?? 'offline'
+}
+
+// Announce the signed-in user in the workspace and listen for everyone else.
+// Mount once, at the app root.
+export function usePresenceTracking(groupId: string | null, userId: string | undefined) {
+  useEffect(() => {
+    if (!groupId || !userId) return
+
+    const topic = presenceTopic(groupId)
+    let lastActivityAt = Date.now()
+    let status: OnlineStatus = 'active'
+
+    const publishHeartbeat = () => {
+      setEntry(userId, status)
+      realtime.publish(topic, { type: 'presence.heartbeat', userId, status }).catch((error) => {
+        console.error('Error publishing presence:', error)
+      })
+    }
+
+    const updateStatus = () => {
+      const nextStatus = Date.now() - lastActivityAt > AWAY_AFTER_IDLE ? 'away' : 'active'
+      if (nextStatus !== status) {
+        status = nextStatus
+        publishHeartbeat()
+      }
+    }
+
+    const handleActivity = () => {
+      lastActivityAt = Date.now()
+      updateStatus()
+    }
+
+    const unsubscribe = realtime.subscribe(topic, (event) => {
+      switch (event.type) {
+        case 'presence.heartbeat':
+          setEntry(event.userId, event.status)
+          break
+        case 'presence.offline':
+          removeEntries([event.userId])
+          break
+        case 'presence.sync':
+          // Someone just arrived: let them know we're here without waiting a full interval
+          if (event.userId !== userId) publishHeartbeat()
+          break
+      }
+    })
+
+    const publishOffline = () => {
+      realtime.publish(topic, { type: 'presence.offline', userId }).catch(() => {})
+    }
+
+    publishHeartbeat()
+    realtime.publish(topic, { type: 'presence.sync', userId }).catch((error) => {
+      console.error('Error publishing presence:', error)
+    })
+
+    const interval = setInterval(() => {
+      updateStatus()
+      publishHeartbeat()
+      pruneStaleEntries()
+    }, HEARTBEAT_INTERVAL)
+
+    ACTIVITY_EVENTS.forEach(eventName => window.addEventListener(eventName, handleActivity))
+    window.addEventListener('beforeunload', publishOffline)
+
+    return () => {
+      clearInterval(interval)
+      ACTIVITY_EVENTS.forEach(eventName => window.removeEventListener(eventName, handleActivity))
+      window.removeEventListener('beforeunload', publishOffline)
+      publishOffline()
+      unsubscribe()
+      lastSeenAt.clear()
+      statuses.set(new Map())
+    }
+  }, [groupId, userId])
+}
+
+export function usePresence(userId: string | null | undefined): PresenceStatus {
+  const current = useSyncExternalStore(statuses.subscribe, statuses.get)
+  return (userId && current.get(userId)) || 'offline'
+}
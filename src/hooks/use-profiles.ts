@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react'
+import { fetchProfiles } from '@/blink/profiles'
+import type { UserProfile } from '@/blink/types'
+import { createStore } from '@/lib/store'
+
+// Shared, app-wide profile cache. `null` marks a user with no profile row so
+// we don't keep asking for them.
+const cache = createStore<ReadonlyMap<string, UserProfile | null>>(new Map())
+const queued = new Set<string>()
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+const updateCache = (update: (next: Map<string, UserProfile | null>) => void) => {
+  const next = new Map(cache.get())
+  update(next)
+  cache.set(next)
+}
+
+// Collect ids requested in the same tick into a single query
+const flush = async () => {
+  flushTimer = null
+  const ids = Array.from(queued)
+  queued.clear()
+  if (ids.length === 0) return
+
+  try {
+    const profiles = await fetchProfiles(ids)
+    updateCache(next => {
+      ids.forEach(id => next.set(id, null))
+      profiles.forEach(profile => next.set(profile.id, profile))
+    })
+  } catch (error) {
+    console.error('Error loading user profiles:', error)
+    updateCache(next => ids.forEach(id => next.delete(id)))
+  }
+}
+
+const requestProfiles = (userIds: string[]) => {
+  let added = false
+  for (const id of userIds) {
+    if (!id || cache.get().has(id) || queued.has(id)) continue
+    queued.add(id)
+    added = true
+  }
+  if (added && !flushTimer) {
+    flushTimer = setTimeout(flush, 0)
+  }
+}
+
+export function primeProfile(profile: UserProfile) {
+  updateCache(next => next.set(profile.id, profile))
+}
+
+export function useProfiles(userIds: string[]): Record<string, UserProfile | undefined> {
+  const key = Array.from(new Set(userIds)).sort().join(',')
+  const profileCache = useSyncExternalStore(cache.subscribe, cache.get)
+
+  useEffect(() => {
+    requestProfiles(key ? key.split(',') : [])
+  }, [key])
+
+  return useMemo(() => {
+    const profiles: Record<string, UserProfile | undefined> = {}
+    for (const id of key ? key.split(',') : []) {
+      profiles[id] = profileCache.get(id) ?? undefined
+    }
+    return profiles
+  }, [key, profileCache])
+}
+
+export function useProfile(userId: string | null | undefined): UserProfile | undefined {
+  return useProfiles(userId ? [userId] : [])[userId || '']
+}
+
+export function getDisplayName(userId: string, profile?: UserProfile) {
+  return profile?.displayName || profile?.email || `User ${userId.slice(-4)}`
+}
+
+export function getInitials(userId: string, profile?: UserProfile) {
+  const name = profile?.displayName || profile?.email
+  if (!name) return userId.slice(-2).toUpperCase()
+
+  const parts = name.split(/[\s@.]+/).filter(Boolean)
+  return parts.slice(0, 2).map(part => part[0]).join('').toUpperCase()
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { createId } from '@/blink/db'
+import { useLatestRef } from '@/hooks/use-latest-ref'
+import { createStore } from '@/lib/store'
+
+export interface Reminder {
+  id: string
+  text: string
+  // Where the reminder was set, to jump back to
+  groupId: string
+  channelId: string
+  threadId: string | null
+  remindAt: string
+}
+
+// Stored per user, so one account's reminders never fire for another
+const STORAGE_KEY = 'reminders'
+const storageKey = (userId: string) => `${STORAGE_KEY}:${userId}`
+// setTimeout overflows past ~24.8 days, so long waits are re-armed in steps
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000
+
+// Reminders the signed-in user set with /remind on this client, kept in
+// localStorage until they're due
+let remindersUserId: string | null = null
+const reminders = createStore<Reminder[]>([])
+
+function loadReminders(userId: string): Reminder[] {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) || '[]')
+  } catch {
+    return []
+  }
+}
+
+const setReminders = (next: Reminder[]) => {
+  if (remindersUserId) {
+    try {
+      localStorage.setItem(storageKey(remindersUserId), JSON.stringify(next))
+    } catch (error) {
+      console.warn('Failed to save reminders:', error)
+    }
+  }
+  reminders.set(next)
+}
+
+// Switch to the signed-in user's reminders, or none when signed out
+export function setRemindersUser(userId: string | null) {
+  if (userId === remindersUserId) return
+  remindersUserId = userId
+  reminders.set(userId ? loadReminders(userId) : [])
+}
+
+export function addReminder(data: Omit<Reminder, 'id'>): Reminder {
+  const reminder = { ...data, id: createId('reminder') }
+  setReminders([...reminders.get(), reminder])
+  return reminder
+}
+
+// Calls onDue for each reminder as it comes due, including ones that came due
+// while the app was closed. Mount once, near the root.
+export function useReminders(onDue: (reminder: Reminder) => void) {
+  const current = useSyncExternalStore(reminders.subscribe, reminders.get)
+  const onDueRef = useLatestRef(onDue)
+  // Bumped by the timer to check again
+  const [wakeUps, setWakeUps] = useState(0)
+
+  useEffect(() => {
+    const now = Date.now()
+    const due = current.filter(reminder => new Date(reminder.remindAt).getTime() <= now)
+    if (due.length > 0) {
+      // Removing them re-runs this effect for the rest
+      setReminders(current.filter(reminder => !due.includes(reminder)))
+      due.forEach(reminder => onDueRef.current(reminder))
+      return
+    }
+    if (current.length === 0) return
+
+    const next = Math.min(...current.map(reminder => new Date(reminder.remindAt).getTime()))
+    const timeout = setTimeout(() => setWakeUps(count => count + 1), Math.min(next - now, MAX_TIMER_DELAY))
+    return () => clearTimeout(timeout)
+  }, [current, wakeUps, onDueRef])
+}
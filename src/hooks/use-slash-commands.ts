@@ -0,0 +1,13 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { slashCommands } from '@/lib/slash-commands'
+import type { SlashCommand } from '@/lib/slash-commands'
+
+// All registered commands, alphabetically
+export function useSlashCommands(): SlashCommand[] {
+  const commands = useSyncExternalStore(slashCommands.subscribe, slashCommands.get)
+
+  return useMemo(
+    () => Array.from(commands.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    [commands]
+  )
+}
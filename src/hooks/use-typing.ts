@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { realtime, typingTopic } from '@/blink/realtime'
+
+// Re-announce while the user keeps typing, at most this often
+const TYPING_THROTTLE = 3000
+// Forget a typist who stopped announcing (closed the tab, lost connection)
+const TYPING_TIMEOUT = 5000
+
+// Who else is typing in a channel, or in one thread of it when threadId is set,
+// plus callbacks to announce the current user's own typing
+export function useTypingIndicator(channelId: string | null, userId: string, threadId: string | null = null) {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([])
+  const lastSentAtRef = useRef(0)
+  const expiryTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+
+  useEffect(() => {
+    if (!channelId) return
+    const timers = expiryTimersRef.current
+
+    const removeTypist = (typistId: string) => {
+      const timer = timers.get(typistId)
+      if (timer) clearTimeout(timer)
+      timers.delete(typistId)
+      setTypingUserIds(prev => prev.filter(id => id !== typistId))
+    }
+
+    const unsubscribe = realtime.subscribe(typingTopic(channelId), (event) => {
+      if (event.type !== 'typing' || event.userId === userId || event.threadId !== threadId) return
+
+      if (!event.isTyping) {
+        removeTypist(event.userId)
+        return
+      }
+
+      const pending = timers.get(event.userId)
+      if (pending) clearTimeout(pending)
+      timers.set(event.userId, setTimeout(() => removeTypist(event.userId), TYPING_TIMEOUT))
+      setTypingUserIds(prev => prev.includes(event.userId) ? prev : [...prev, event.userId])
+    })
+
+    return () => {
+      unsubscribe()
+      timers.forEach(timer => clearTimeout(timer))
+      timers.clear()
+      setTypingUserIds([])
+      lastSentAtRef.current = 0
+    }
+  }, [channelId, userId, threadId])
+
+  const publishTyping = useCallback((isTyping: boolean) => {
+    if (!channelId) return
+    realtime.publish(typingTopic(channelId), { type: 'typing', userId, threadId, isTyping }).catch((error) => {
+      console.error('Error publishing typing indicator:', error)
+    })
+  }, [channelId, userId, threadId])
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now()
+    if (now - lastSentAtRef.current < TYPING_THROTTLE) return
+    lastSentAtRef.current = now
+    publishTyping(true)
+  }, [publishTyping])
+
+  const stopTyping = useCallback(() => {
+    if (lastSentAtRef.current === 0) return
+    lastSentAtRef.current = 0
+    publishTyping(false)
+  }, [publishTyping])
+
+  return { typingUserIds, notifyTyping, stopTyping }
+}
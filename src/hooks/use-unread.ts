@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react'
+import { listReadCursors, saveReadCursor, listUnreadCandidates } from '@/blink/read-cursors'
+import type { UnreadCandidate } from '@/blink/read-cursors'
+import { realtime, channelTopic } from '@/blink/realtime'
+import { isUserMentioned } from '@/lib/mentions'
+import { createStore } from '@/lib/store'
+
+export interface ChannelUnread {
+  count: number
+  mentions: number
+}
+
+interface UnreadMessage {
+  id: string
+  createdAt: string
+  isMention: boolean
+}
+
+// Shared, app-wide read state for the signed-in user: each joined channel's
+// read cursor and the unread messages after it
+interface UnreadState {
+  userId: string | null
+  cursors: ReadonlyMap<string, string>
+  unreadMessages: ReadonlyMap<string, UnreadMessage[]>
+}
+
+const readState = createStore<UnreadState>({ userId: null, cursors: new Map(), unreadMessages: new Map() })
+const saveTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+// Cursor writes are coalesced per channel while the user scrolls
+const CURSOR_SAVE_DELAY = 1000
+
+// Another user's cursors and unreads never carry over after switching accounts
+const stateFor = (userId: string): UnreadState => {
+  if (readState.get().userId !== userId) {
+    readState.set({ userId, cursors: new Map(), unreadMessages: new Map() })
+  }
+  return readState.get()
+}
+
+const setCursor = (userId: string, channelId: string, cursor: string) => {
+  const current = stateFor(userId)
+  readState.set({ ...current, cursors: new Map(current.cursors).set(channelId, cursor) })
+}
+
+const setUnreadMessages = (userId: string, channelId: string, messages: UnreadMessage[]) => {
+  const current = stateFor(userId)
+  readState.set({ ...current, unreadMessages: new Map(current.unreadMessages).set(channelId, messages) })
+}
+
+// Timestamps come from both the database and this client, so compare them as dates
+const isAfter = (a: string, b: string) => new Date(a).getTime() > new Date(b).getTime()
+
+// Thread replies, system events and the user's own messages never count
+const countsAsUnread = (message: UnreadCandidate, userId: string) =>
+  !message.threadId && message.userId !== userId && message.messageType !== 'system'
+
+const toUnreadMessage = (message: UnreadCandidate, userId: string): UnreadMessage => ({
+  id: message.id,
+  createdAt: message.createdAt,
+  isMention: isUserMentioned(message.content, userId)
+})
+
+const addUnreadMessage = (message: UnreadCandidate, userId: string) => {
+  const { cursors, unreadMessages } = stateFor(userId)
+  const cursor = cursors.get(message.channelId)
+  if (!cursor || !isAfter(message.createdAt, cursor) || !countsAsUnread(message, userId)) return
+
+  const existing = unreadMessages.get(message.channelId) || []
+  if (existing.some(unread => unread.id === message.id)) return
+  setUnreadMessages(userId, message.channelId, [...existing, toUnreadMessage(message, userId)])
+}
+
+const removeUnreadMessage = (userId: string, channelId: string, messageId: string) => {
+  const existing = stateFor(userId).unreadMessages.get(channelId)
+  if (!existing?.some(unread => unread.id === messageId)) return
+  setUnreadMessages(userId, channelId, existing.filter(unread => unread.id !== messageId))
+}
+
+const scheduleCursorSave = (userId: string, channelId: string) => {
+  const pending = saveTimers.get(channelId)
+  if (pending) clearTimeout(pending)
+
+  saveTimers.set(channelId, setTimeout(() => {
+    saveTimers.delete(channelId)
+    const current = readState.get()
+    const lastReadAt = current.userId === userId ? current.cursors.get(channelId) : undefined
+    if (!lastReadAt) return
+    saveReadCursor(userId, channelId, lastReadAt).catch((error) => {
+      console.error('Error saving read cursor:', error)
+    })
+  }, CURSOR_SAVE_DELAY))
+}
+
+const loadUnreadState = async (userId: string, channelIds: string[]) => {
+  stateFor(userId)
+  const now = new Date().toISOString()
+  const cursorRows = await listReadCursors(userId, channelIds)
+  const loaded = new Map(cursorRows.map(cursor => [cursor.channelId, cursor.lastReadAt]))
+
+  // Channels that have never been opened start out read
+  const missing = channelIds.filter(channelId => !loaded.has(channelId))
+  await Promise.all(missing.map(channelId => saveReadCursor(userId, channelId, now)))
+  missing.forEach(channelId => loaded.set(channelId, now))
+  const current = readState.get()
+  if (current.userId !== userId) return
+
+  // Keep anything marked read locally while this load was in flight
+  const cursors = new Map(current.cursors)
+  for (const [channelId, lastReadAt] of loaded) {
+    const local = cursors.get(channelId)
+    if (!local || !isAfter(local, lastReadAt)) cursors.set(channelId, lastReadAt)
+  }
+  readState.set({ ...current, cursors })
+
+  // Each channel is counted on its own, so a busy channel can't crowd out the rest
+  await Promise.all(channelIds.map(async (channelId) => {
+    const cursor = cursors.get(channelId) || now
+    const candidates = await listUnreadCandidates(userId, channelId, cursor)
+    // The user may have switched accounts or read further in the meantime
+    const latest = readState.get()
+    if (latest.userId !== userId) return
+    const latestCursor = latest.cursors.get(channelId) || cursor
+    setUnreadMessages(userId, channelId, candidates
+      .filter(message => isAfter(message.createdAt, latestCursor) && countsAsUnread(message, userId))
+      .map(message => toUnreadMessage(message, userId))
+    )
+  }))
+}
+
+// Move the channel's cursor forward to `readAt` (never backwards) and persist it
+export function markChannelRead(userId: string, channelId: string, readAt?: string) {
+  const { cursors, unreadMessages } = stateFor(userId)
+  const unread = unreadMessages.get(channelId) || []
+  // Without an explicit point, read past everything we know about, even if
+  // the server clock is ahead of ours
+  const target = readAt || unread.reduce(
+    (latest, message) => isAfter(message.createdAt, latest) ? message.createdAt : latest,
+    new Date().toISOString()
+  )
+  const cursor = cursors.get(channelId)
+  if (cursor && !isAfter(target, cursor)) return
+
+  setCursor(userId, channelId, target)
+  setUnreadMessages(userId, channelId, unread.filter(message => isAfter(message.createdAt, target)))
+  scheduleCursorSave(userId, channelId)
+}
+
+// The cursor as it was when the channel was opened, for the "New" divider
+export async function getReadCursor(userId: string, channelId: string): Promise<string | null> {
+  const cached = stateFor(userId).cursors.get(channelId)
+  if (cached) return cached
+
+  const [cursor] = await listReadCursors(userId, [channelId])
+  return cursor?.lastReadAt ?? null
+}
+
+export function useUnreadCounts(userId: string, channelIds: string[]): Record<string, ChannelUnread> {
+  const key = Array.from(new Set(channelIds)).sort().join(',')
+  const snapshot = useSyncExternalStore(readState.subscribe, readState.get)
+
+  useEffect(() => {
+    if (!key) return
+    const ids = key.split(',')
+
+    loadUnreadState(userId, ids).catch((error) => {
+      console.error('Error loading unread messages:', error)
+    })
+
+    // Count new messages in every joined channel, not just the open one
+    const unsubscribes = ids.map(channelId =>
+      realtime.subscribe(channelTopic(channelId), (event) => {
+        if (event.type === 'message.created') {
+          addUnreadMessage(event.message, userId)
+        } else if (event.type === 'message.deleted') {
+          removeUnreadMessage(userId, channelId, event.messageId)
+        }
+      })
+    )
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe())
+  }, [userId, key])
+
+  return useMemo(() => {
+    const counts: Record<string, ChannelUnread> = {}
+    for (const channelId of key ? key.split(',') : []) {
+      const unread = snapshot.userId === userId ? snapshot.unreadMessages.get(channelId) || [] : []
+      counts[channelId] = {
+        count: unread.length,
+        mentions: unread.filter(message => message.isMention).length
+      }
+    }
+    return counts
+  }, [userId, key, snapshot])
+}
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { listWorkspaceMembers } from '@/blink/workspace-members'
+import { loadWorkspaceChannels, loadWorkspacesForUser } from '@/blink/workspaces'
+import type {
+  Channel,
+  ChannelMember,
+  Group,
+  Message,
+  PinnedMessage,
+  Reaction,
+  WorkspaceMember
+} from '@/blink/types'
+import { createStore } from '@/lib/store'
+
+// Cached results younger than this are reused as they are. Older ones are
+// still shown straight away, and refetched in the background.
+const STALE_AFTER = 30 * 1000
+
+// Normalized entities, shared by every query that returned them
+const groups = new Map<string, Group>()
+const channels = new Map<string, Channel>()
+const channelMembers = new Map<string, ChannelMember>()
+const workspaceMembers = new Map<string, WorkspaceMember>()
+const messages = new Map<string, Message>()
+
+// Query results only hold ids, so an entity updated by one query is current
+// everywhere it appears
+interface Query<T> {
+  fetchedAt: number
+  request: Promise<void> | null
+  fetch: () => Promise<T>
+}
+
+const queries = new Map<string, Query<unknown>>()
+// Each query's latest result by key
+const results = createStore<ReadonlyMap<string, unknown>>(new Map())
+// Bumped when the store is cleared, so requests from before are dropped
+let generation = 0
+
+const putAll = <T extends { id: string }>(entities: Map<string, T>, rows: T[]) => {
+  rows.forEach(row => entities.set(row.id, row))
+  return rows.map(row => row.id)
+}
+
+const resolveAll = <T>(entities: Map<string, T>, ids: string[]) =>
+  ids.map(id => entities.get(id)).filter((entity): entity is T => entity !== undefined)
+
+// Callers asking for the same query at once share one request. A forced
+// fetch waits for any request already in flight, since that one may have
+// started before whatever change prompted the refresh.
+function fetchQuery<T>(key: string, fetch: () => Promise<T>, force = false): Promise<void> {
+  let query = queries.get(key) as Query<T> | undefined
+  if (!query) {
+    query = { fetchedAt: 0, request: null, fetch }
+    queries.set(key, query as Query<unknown>)
+  }
+  const entry = query
+  entry.fetch = fetch
+
+  if (entry.request) {
+    return force ? entry.request.then(() => fetchQuery(key, fetch, true)) : entry.request
+  }
+  if (!force && results.get().has(key) && Date.now() - entry.fetchedAt < STALE_AFTER) {
+    return Promise.resolve()
+  }
+
+  const requestGeneration = generation
+  entry.request = entry.fetch()
+    .then((data) => {
+      if (requestGeneration !== generation) return
+      entry.fetchedAt = Date.now()
+      results.set(new Map(results.get()).set(key, data))
+    })
+    .catch((error) => {
+      console.error('Error loading workspace data:', error)
+    })
+    .finally(() => {
+      entry.request = null
+    })
+  return entry.request
+}
+
+// Refetch every cached query whose key starts with the prefix
+const refreshQueries = (prefix: string) => Promise.all(
+  Array.from(queries.entries())
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([key, query]) => fetchQuery(key, query.fetch, true))
+)
+
+// Subscribe to a query, fetching it on first use and whenever it has gone
+// stale. `fetch` should change only with the key, and `resolve` not at all.
+function useQuery<T, R>(key: string | null, fetch: () => Promise<T>, resolve: (data: T) => R) {
+  const currentResults = useSyncExternalStore(results.subscribe, results.get)
+
+  useEffect(() => {
+    if (key) fetchQuery(key, fetch)
+  }, [key, fetch])
+
+  return useMemo(() => {
+    const data = key ? currentResults.get(key) as T | undefined : undefined
+    return data === undefined ? null : resolve(data)
+  }, [key, currentResults, resolve])
+}
+
+interface WorkspacesResult {
+  groupIds: string[]
+  roles: Record<string, string>
+}
+
+const workspacesKey = (userId: string) => `workspaces:${userId}`
+
+const fetchWorkspaces = async (userId: string): Promise<WorkspacesResult> => {
+  const { groups: groupsData, memberships } = await loadWorkspacesForUser(userId)
+  return {
+    groupIds: putAll(groups, groupsData),
+    roles: Object.fromEntries(memberships.map(membership => [membership.groupId, membership.role]))
+  }
+}
+
+const resolveWorkspaces = (data: WorkspacesResult) => ({
+  groups: resolveAll(groups, data.groupIds),
+  roles: data.roles
+})
+
+// The user's workspaces and their role in each; `isLoaded` stays false until
+// the first fetch has finished
+export function useWorkspaces(userId: string | null | undefined) {
+  const fetch = useCallback(() => fetchWorkspaces(userId!), [userId])
+  const result = useQuery(userId ? workspacesKey(userId) : null, fetch, resolveWorkspaces)
+
+  return {
+    groups: result?.groups ?? [],
+    roles: result?.roles ?? {},
+    isLoaded: result !== null
+  }
+}
+
+export const refreshWorkspaces = (userId: string) => refreshQueries(workspacesKey(userId))
+
+interface WorkspaceChannelsResult {
+  channelIds: string[]
+  allChannelIds: string[]
+  joinedChannelIds: string[]
+  dmMemberIds: string[]
+}
+
+const channelsKey = (groupId: string, userId: string) => `channels:${groupId}:${userId}`
+
+const fetchWorkspaceChannels = async (groupId: string, userId: string): Promise<WorkspaceChannelsResult> => {
+  const result = await loadWorkspaceChannels(groupId, userId)
+  return {
+    channelIds: putAll(channels, result.channels),
+    allChannelIds: result.allChannelIds,
+    joinedChannelIds: result.joinedChannelIds,
+    dmMemberIds: putAll(channelMembers, result.dmMembers)
+  }
+}
+
+const resolveWorkspaceChannels = (data: WorkspaceChannelsResult) => ({
+  channels: resolveAll(channels, data.channelIds),
+  allChannelIds: data.allChannelIds,
+  joinedChannelIds: data.joinedChannelIds,
+  dmMembers: resolveAll(channelMembers, data.dmMemberIds)
+})
+
+export function useWorkspaceChannels(groupId: string | null | undefined, userId: string | null | undefined) {
+  const fetch = useCallback(() => fetchWorkspaceChannels(groupId!, userId!), [groupId, userId])
+  const result = useQuery(groupId && userId ? channelsKey(groupId, userId) : null, fetch, resolveWorkspaceChannels)
+
+  return {
+    channels: result?.channels ?? [],
+    allChannelIds: result?.allChannelIds ?? [],
+    joinedChannelIds: result?.joinedChannelIds ?? [],
+    dmMembers: result?.dmMembers ?? [],
+    isLoaded: result !== null
+  }
+}
+
+// After joining, leaving, creating or archiving channels
+export const refreshWorkspaceChannels = (groupId: string) => refreshQueries(`channels:${groupId}:`)
+
+const membersKey = (groupId: string) => `members:${groupId}`
+
+const fetchWorkspaceMembers = async (groupId: string) => putAll(workspaceMembers, await listWorkspaceMembers(groupId))
+
+const resolveWorkspaceMembers = (memberIds: string[]) => resolveAll(workspaceMembers, memberIds)
+
+export function useWorkspaceMembers(groupId: string | null | undefined) {
+  const fetch = useCallback(() => fetchWorkspaceMembers(groupId!), [groupId])
+  const members = useQuery(groupId ? membersKey(groupId) : null, fetch, resolveWorkspaceMembers)
+  return useMemo(() => members ?? [], [members])
+}
+
+// After people join or leave a workspace, or their role changes
+export const refreshWorkspaceMembers = (groupId: string) => refreshQueries(membersKey(groupId))
+
+// What a channel looked like when it was last open, so switching back to it
+// can render straight away while it is reloaded
+export interface ChannelSnapshot {
+  channel: Channel
+  members: ChannelMember[]
+  pins: PinnedMessage[]
+  messages: Message[]
+  reactions: Reaction[]
+  hasMore: boolean
+  oldestCursor: string | null
+}
+
+interface StoredSnapshot extends Omit<ChannelSnapshot, 'channel' | 'members' | 'messages'> {
+  memberIds: string[]
+  messageIds: string[]
+}
+
+const snapshots = new Map<string, StoredSnapshot>()
+
+// Snapshots change with every message, and only the open channel reads its
+// own, so saving one doesn't notify subscribers
+export function saveChannelSnapshot({ channel, members, messages: snapshotMessages, ...rest }: ChannelSnapshot) {
+  channels.set(channel.id, channel)
+  snapshots.set(channel.id, {
+    ...rest,
+    memberIds: putAll(channelMembers, members),
+    messageIds: putAll(messages, snapshotMessages)
+  })
+}
+
+export function getChannelSnapshot(channelId: string): ChannelSnapshot | null {
+  const snapshot = snapshots.get(channelId)
+  const channel = channels.get(channelId)
+  if (!snapshot || !channel) return null
+
+  const { memberIds, messageIds, ...rest } = snapshot
+  return {
+    ...rest,
+    channel,
+    members: resolveAll(channelMembers, memberIds),
+    messages: resolveAll(messages, messageIds)
+  }
+}
+
+// Forget everything loaded so far, e.g. when another user signs in
+export function clearWorkspaceStore() {
+  generation += 1
+  groups.clear()
+  channels.clear()
+  channelMembers.clear()
+  workspaceMembers.clear()
+  messages.clear()
+  snapshots.clear()
+  queries.clear()
+  results.set(new Map())
+}
@@ -0,0 +1,125 @@
+import { formatDistanceToNow } from 'date-fns'
+import { generateAIText } from '@/blink/ai'
+import { addReminder } from '@/hooks/use-reminders'
+import { extractMentions } from '@/lib/mentions'
+import { SlashCommandError, registerSlashCommand, splitQuotedArgs, parseReminderDelay } from '@/lib/slash-commands'
+import type { SlashCommand } from '@/lib/slash-commands'
+
+const MAX_POLL_OPTIONS = 10
+const POLL_NUMBERS = ['1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣', '🔟']
+
+const BUILTIN_SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'topic',
+    description: 'Set the channel topic',
+    argsHint: '[text]',
+    isAvailable: host => !!host.setTopic,
+    run: async ({ args, setTopic }) => {
+      if (!args) throw new SlashCommandError('Add the new topic after /topic.')
+      await setTopic!(args)
+    }
+  },
+  {
+    name: 'invite',
+    description: 'Add people to this channel',
+    argsHint: '@person',
+    isAvailable: host => !!host.addMembers,
+    run: async ({ args, addMembers }) => {
+      const userIds = extractMentions(args).flatMap(mention => mention.type === 'user' ? [mention.userId] : [])
+      if (userIds.length === 0) {
+        throw new SlashCommandError('Pick the people to add from the @ suggestions, e.g. /invite @name.')
+      }
+      await addMembers!(userIds)
+    }
+  },
+  {
+    name: 'leave',
+    description: 'Leave this channel',
+    isAvailable: host => !!host.leave,
+    run: async ({ leave }) => {
+      await leave!()
+    }
+  },
+  {
+    name: 'remind',
+    description: 'Get a reminder here later',
+    argsHint: '[in 10 minutes | 2h | tomorrow] [what]',
+    run: ({ args, groupId, channelId, threadId }) => {
+      const parsed = parseReminderDelay(args)
+      if (!parsed) throw new SlashCommandError('Say when first, e.g. /remind in 30 minutes check the build.')
+      if (!parsed.rest) throw new SlashCommandError('Add what to be reminded about.')
+
+      const remindAt = new Date(Date.now() + parsed.delay)
+      addReminder({ text: parsed.rest, groupId, channelId, threadId, remindAt: remindAt.toISOString() })
+      return {
+        type: 'confirm',
+        message: `I'll remind you ${formatDistanceToNow(remindAt, { addSuffix: true })}: ${parsed.rest}`
+      }
+    }
+  },
+  {
+    name: 'poll',
+    description: 'Ask a question people vote on with reactions',
+    argsHint: '"Question" "Option 1" "Option 2"',
+    run: ({ args }) => {
+      const [question, ...options] = splitQuotedArgs(args)
+      if (!question || options.length < 2) {
+        throw new SlashCommandError('Give a question and at least two options, e.g. /poll "Lunch?" "Tacos" "Pizza".')
+      }
+      if (options.length > MAX_POLL_OPTIONS) {
+        throw new SlashCommandError(`Polls can have up to ${MAX_POLL_OPTIONS} options.`)
+      }
+
+      return {
+        type: 'send',
+        content: [
+          `📊 **${question}**`,
+          '',
+          ...options.map((option, index) => `${POLL_NUMBERS[index]} ${option}`),
+          '',
+          '_React with a number to vote._'
+        ].join('\n')
+      }
+    }
+  },
+  {
+    name: 'shrug',
+    description: 'Append ¯\\_(ツ)_/¯ to your message',
+    argsHint: '[message]',
+    // Escaped so markdown keeps the backslash and underscores
+    run: ({ args }) => ({ type: 'send', content: `${args} ¯\\\\\\_(ツ)\\_/¯`.trim() })
+  },
+  {
+    name: 'code',
+    description: 'Send a code block',
+    argsHint: '[language] [code]',
+    run: ({ args }) => {
+      const [firstLine, ...otherLines] = args.split('\n')
+      // The first word is the language when it looks like one, as in "/code ts" or "/code c++ x++"
+      const languageMatch = /^([\w+#-]+)(?:\s+([\s\S]*))?$/.exec(firstLine)
+      const language = languageMatch?.[1] ?? ''
+      const code = [languageMatch ? languageMatch[2] ?? '' : firstLine, ...otherLines].join('\n').trim()
+
+      // Without code, open an empty block to type into
+      return code
+        ? { type: 'send', content: `\`\`\`${language}\n${code}\n\`\`\`` }
+        : { type: 'compose', content: `\`\`\`${language}\n\n\`\`\``, cursor: language.length + 4 }
+    }
+  },
+  {
+    name: 'ai',
+    description: 'Draft a message with AI',
+    argsHint: '[prompt]',
+    run: async ({ args }) => {
+      if (!args) throw new SlashCommandError('Say what to write after /ai.')
+
+      const content = await generateAIText('Write the message they ask for. Reply with only the message text, ready to send.', args)
+      return { type: 'compose', content }
+    }
+  }
+]
+
+// Called once at startup, before the app renders
+export function registerBuiltinSlashCommands() {
+  BUILTIN_SLASH_COMMANDS.forEach(registerSlashCommand)
+}
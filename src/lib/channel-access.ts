@@ -0,0 +1,13 @@
+import type { Channel } from '@/blink/types'
+
+type AccessChannel = Pick<Channel, 'id' | 'isDirect'> & Partial<Pick<Channel, 'isPrivate'>>
+
+// Private channels and direct messages are members-only; everything else is
+// open to the whole workspace
+export function isMembersOnlyChannel(channel: AccessChannel): boolean {
+  return Number(channel.isPrivate) > 0 || Number(channel.isDirect) > 0
+}
+
+export function canViewChannel(channel: AccessChannel, joinedChannelIds: Set<string>): boolean {
+  return !isMembersOnlyChannel(channel) || joinedChannelIds.has(channel.id)
+}
@@ -0,0 +1,299 @@
+export interface EmojiEntry {
+  emoji: string
+  name: string
+  keywords: string[]
+}
+
+export interface EmojiCategory {
+  id: string
+  label: string
+  icon: string
+  emojis: EmojiEntry[]
+}
+
+const e = (emoji: string, name: string, keywords: string = ''): EmojiEntry => ({
+  emoji,
+  name,
+  keywords: keywords ? keywords.split(' ') : []
+})
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  {
+    id: 'smileys',
+    label: 'Smileys & People',
+    icon: '😀',
+    emojis: [
+      e('😀', 'grinning', 'smile happy'),
+      e('😃', 'smiley', 'smile happy'),
+      e('😄', 'smile', 'happy joy'),
+      e('😁', 'grin', 'smile teeth'),
+      e('😆', 'laughing', 'lol haha'),
+      e('😅', 'sweat smile', 'relief nervous'),
+      e('🤣', 'rofl', 'lol laugh floor'),
+      e('😂', 'joy', 'tears laugh lol'),
+      e('🙂', 'slightly smiling', 'smile'),
+      e('🙃', 'upside down', 'silly sarcasm'),
+      e('😉', 'wink', 'flirt'),
+      e('😊', 'blush', 'smile happy'),
+      e('😇', 'innocent', 'angel halo'),
+      e('🥰', 'smiling hearts', 'love adore'),
+      e('😍', 'heart eyes', 'love crush'),
+      e('🤩', 'star struck', 'wow amazing'),
+      e('😘', 'kissing heart', 'kiss love'),
+      e('😋', 'yum', 'tasty delicious'),
+      e('😛', 'tongue', 'silly playful'),
+      e('😜', 'wink tongue', 'crazy silly'),
+      e('🤪', 'zany', 'crazy wild'),
+      e('🤔', 'thinking', 'hmm consider'),
+      e('🤨', 'raised eyebrow', 'skeptical doubt'),
+      e('😐', 'neutral', 'meh blank'),
+      e('😑', 'expressionless', 'blank meh'),
+      e('😶', 'no mouth', 'silent speechless'),
+      e('🙄', 'eye roll', 'whatever annoyed'),
+      e('😏', 'smirk', 'smug'),
+      e('😬', 'grimace', 'awkward yikes'),
+      e('😌', 'relieved', 'calm content'),
+      e('😔', 'pensive', 'sad thoughtful'),
+      e('😴', 'sleeping', 'tired zzz'),
+      e('😷', 'mask', 'sick ill'),
+      e('🤒', 'thermometer face', 'sick fever'),
+      e('🤯', 'mind blown', 'shocked exploding'),
+      e('🥳', 'partying', 'celebrate party'),
+      e('😎', 'sunglasses', 'cool'),
+      e('🤓', 'nerd', 'geek glasses'),
+      e('😕', 'confused', 'unsure'),
+      e('😟', 'worried', 'concerned'),
+      e('😮', 'open mouth', 'surprised wow'),
+      e('😲', 'astonished', 'shocked surprised'),
+      e('🥺', 'pleading', 'puppy eyes please'),
+      e('😢', 'cry', 'sad tear'),
+      e('😭', 'sob', 'cry sad tears'),
+      e('😱', 'scream', 'fear shocked'),
+      e('😤', 'triumph', 'huff frustrated'),
+      e('😡', 'rage', 'angry mad'),
+      e('🤬', 'cursing', 'swear angry'),
+      e('💀', 'skull', 'dead dying'),
+      e('🤖', 'robot', 'bot ai'),
+      e('👻', 'ghost', 'boo halloween'),
+      e('🙈', 'see no evil', 'monkey embarrassed'),
+      e('🤷', 'shrug', 'whatever dunno'),
+      e('🤦', 'facepalm', 'disbelief ugh'),
+      e('🙇', 'bow', 'sorry respect'),
+    ]
+  },
+  {
+    id: 'gestures',
+    label: 'Gestures',
+    icon: '👍',
+    emojis: [
+      e('👍', 'thumbs up', '+1 yes like approve'),
+      e('👎', 'thumbs down', '-1 no dislike'),
+      e('👌', 'ok hand', 'okay perfect'),
+      e('✌️', 'victory', 'peace'),
+      e('🤞', 'crossed fingers', 'luck hope'),
+      e('🤟', 'love you gesture', 'rock'),
+      e('🤘', 'horns', 'rock metal'),
+      e('👋', 'wave', 'hello hi bye'),
+      e('👏', 'clap', 'applause bravo'),
+      e('🙌', 'raised hands', 'hooray celebrate'),
+      e('👐', 'open hands', 'hug'),
+      e('🤝', 'handshake', 'deal agreement'),
+      e('🙏', 'pray', 'please thanks hope'),
+      e('💪', 'muscle', 'strong flex'),
+      e('👀', 'eyes', 'look watching'),
+      e('👉', 'point right', 'this'),
+      e('👈', 'point left', 'this'),
+      e('👆', 'point up', 'above'),
+      e('👇', 'point down', 'below'),
+      e('✋', 'raised hand', 'stop high five'),
+      e('🫡', 'salute', 'respect yes sir'),
+    ]
+  },
+  {
+    id: 'nature',
+    label: 'Animals & Nature',
+    icon: '🐶',
+    emojis: [
+      e('🐶', 'dog', 'puppy pet'),
+      e('🐱', 'cat', 'kitten pet'),
+      e('🦊', 'fox', 'animal'),
+      e('🐻', 'bear', 'animal'),
+      e('🐼', 'panda', 'animal'),
+      e('🐨', 'koala', 'animal'),
+      e('🦁', 'lion', 'animal'),
+      e('🐸', 'frog', 'animal'),
+      e('🐵', 'monkey', 'animal'),
+      e('🐔', 'chicken', 'animal'),
+      e('🐧', 'penguin', 'animal'),
+      e('🦄', 'unicorn', 'magic'),
+      e('🐝', 'bee', 'insect busy'),
+      e('🐛', 'bug', 'insect defect'),
+      e('🦋', 'butterfly', 'insect'),
+      e('🐢', 'turtle', 'slow'),
+      e('🐍', 'snake', 'python'),
+      e('🐙', 'octopus', 'animal'),
+      e('🌵', 'cactus', 'plant desert'),
+      e('🌲', 'evergreen', 'tree'),
+      e('🌱', 'seedling', 'plant grow'),
+      e('🍀', 'four leaf clover', 'luck'),
+      e('🌸', 'cherry blossom', 'flower spring'),
+      e('🌻', 'sunflower', 'flower'),
+      e('🌈', 'rainbow', 'weather'),
+      e('☀️', 'sun', 'weather sunny'),
+      e('🌙', 'moon', 'night'),
+      e('⭐', 'star', 'favorite'),
+      e('⚡', 'zap', 'lightning fast'),
+      e('🔥', 'fire', 'hot lit'),
+      e('❄️', 'snowflake', 'cold winter'),
+      e('🌊', 'wave', 'ocean water'),
+    ]
+  },
+  {
+    id: 'food',
+    label: 'Food & Drink',
+    icon: '🍕',
+    emojis: [
+      e('🍎', 'apple', 'fruit'),
+      e('🍌', 'banana', 'fruit'),
+      e('🍓', 'strawberry', 'fruit'),
+      e('🍉', 'watermelon', 'fruit'),
+      e('🥑', 'avocado', 'fruit'),
+      e('🌶️', 'hot pepper', 'spicy'),
+      e('🍕', 'pizza', 'food'),
+      e('🍔', 'hamburger', 'burger food'),
+      e('🍟', 'fries', 'food'),
+      e('🌮', 'taco', 'food'),
+      e('🍣', 'sushi', 'food'),
+      e('🍜', 'ramen', 'noodles food'),
+      e('🍩', 'doughnut', 'donut sweet'),
+      e('🍪', 'cookie', 'sweet'),
+      e('🎂', 'birthday cake', 'party'),
+      e('🍰', 'cake', 'sweet dessert'),
+      e('🍫', 'chocolate', 'sweet'),
+      e('🍿', 'popcorn', 'movie'),
+      e('☕', 'coffee', 'cafe drink'),
+      e('🍵', 'tea', 'drink'),
+      e('🍺', 'beer', 'drink cheers'),
+      e('🍻', 'beers', 'cheers drink'),
+      e('🍷', 'wine', 'drink'),
+      e('🥂', 'champagne glasses', 'cheers toast'),
+    ]
+  },
+  {
+    id: 'activities',
+    label: 'Activities & Objects',
+    icon: '🎉',
+    emojis: [
+      e('🎉', 'tada', 'party celebrate hooray'),
+      e('🎊', 'confetti', 'party celebrate'),
+      e('🎈', 'balloon', 'party'),
+      e('🎁', 'gift', 'present'),
+      e('🏆', 'trophy', 'win award'),
+      e('🥇', 'first place', 'gold medal win'),
+      e('⚽', 'soccer', 'football sport'),
+      e('🏀', 'basketball', 'sport'),
+      e('🎮', 'video game', 'gaming controller'),
+      e('🎯', 'dart', 'target goal bullseye'),
+      e('🎵', 'music', 'note song'),
+      e('🎧', 'headphones', 'music listen'),
+      e('📷', 'camera', 'photo'),
+      e('💻', 'laptop', 'computer work'),
+      e('⌨️', 'keyboard', 'typing'),
+      e('📱', 'phone', 'mobile'),
+      e('💡', 'bulb', 'idea light'),
+      e('🔧', 'wrench', 'tool fix'),
+      e('🔨', 'hammer', 'tool build'),
+      e('⚙️', 'gear', 'settings'),
+      e('🔒', 'lock', 'secure private'),
+      e('🔑', 'key', 'password access'),
+      e('📌', 'pushpin', 'pin'),
+      e('📎', 'paperclip', 'attachment'),
+      e('📝', 'memo', 'note write'),
+      e('📅', 'calendar', 'date schedule'),
+      e('📈', 'chart up', 'growth increase'),
+      e('📉', 'chart down', 'decrease'),
+      e('📣', 'megaphone', 'announcement'),
+      e('🔔', 'bell', 'notification'),
+      e('🚀', 'rocket', 'launch ship fast'),
+      e('🚧', 'construction', 'wip work in progress'),
+      e('⏰', 'alarm clock', 'time reminder'),
+      e('⏳', 'hourglass', 'waiting time'),
+      e('💰', 'money bag', 'cash'),
+    ]
+  },
+  {
+    id: 'symbols',
+    label: 'Symbols',
+    icon: '❤️',
+    emojis: [
+      e('❤️', 'heart', 'love red'),
+      e('🧡', 'orange heart', 'love'),
+      e('💛', 'yellow heart', 'love'),
+      e('💚', 'green heart', 'love'),
+      e('💙', 'blue heart', 'love'),
+      e('💜', 'purple heart', 'love'),
+      e('🖤', 'black heart', 'love'),
+      e('💔', 'broken heart', 'sad'),
+      e('💯', '100', 'hundred perfect score'),
+      e('✅', 'check', 'done yes complete'),
+      e('☑️', 'ballot check', 'done'),
+      e('✔️', 'check mark', 'done yes'),
+      e('❌', 'x', 'no cross wrong'),
+      e('❗', 'exclamation', 'important warning'),
+      e('❓', 'question', 'help'),
+      e('⚠️', 'warning', 'caution alert'),
+      e('🚫', 'no entry', 'forbidden'),
+      e('➕', 'plus', 'add'),
+      e('➖', 'minus', 'remove'),
+      e('🆗', 'ok', 'okay'),
+      e('🆕', 'new', 'fresh'),
+      e('🔴', 'red circle', 'dot'),
+      e('🟢', 'green circle', 'dot online'),
+      e('🟡', 'yellow circle', 'dot'),
+      e('✨', 'sparkles', 'shiny new magic'),
+      e('💬', 'speech balloon', 'comment chat'),
+      e('💭', 'thought balloon', 'thinking'),
+      e('♻️', 'recycle', 'refactor'),
+    ]
+  }
+]
+
+const RECENT_EMOJI_KEY = 'recentEmojis'
+const MAX_RECENT_EMOJIS = 24
+
+export function getRecentEmojis(): string[] {
+  try {
+    const stored = localStorage.getItem(RECENT_EMOJI_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+export function addRecentEmoji(emoji: string) {
+  const recent = [emoji, ...getRecentEmojis().filter(item => item !== emoji)].slice(0, MAX_RECENT_EMOJIS)
+  try {
+    localStorage.setItem(RECENT_EMOJI_KEY, JSON.stringify(recent))
+  } catch (error) {
+    console.warn('Failed to save recent emojis:', error)
+  }
+  return recent
+}
+
+export function searchEmojis(query: string): EmojiEntry[] {
+  const term = query.trim().toLowerCase()
+  if (!term) return []
+
+  const seen = new Set<string>()
+  const results: EmojiEntry[] = []
+  for (const category of EMOJI_CATEGORIES) {
+    for (const entry of category.emojis) {
+      if (seen.has(entry.emoji)) continue
+      if (entry.name.includes(term) || entry.keywords.some(keyword => keyword.startsWith(term))) {
+        seen.add(entry.emoji)
+        results.push(entry)
+      }
+    }
+  }
+  return results
+}
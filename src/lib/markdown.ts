@@ -0,0 +1,26 @@
+import type { Root } from 'hast'
+import type { Options } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkParse from 'remark-parse'
+import remarkRehype from 'remark-rehype'
+import { unified } from 'unified'
+import { rehypeMentions } from '@/lib/mentions'
+import { safeRehypePlugins } from '@/lib/sanitize'
+
+// How message content is rendered. Mentions are marked after sanitizing, so
+// raw HTML can't pass itself off as one.
+export const messageRemarkPlugins: NonNullable<Options['remarkPlugins']> = [remarkGfm]
+export const messageRehypePlugins: NonNullable<Options['rehypePlugins']> = [...safeRehypePlugins, rehypeMentions]
+
+// The pipeline ReactMarkdown runs for messages, stopping at the HTML tree
+const messageProcessor = unified()
+  .use(remarkParse)
+  .use(messageRemarkPlugins)
+  .use(remarkRehype, { allowDangerousHtml: true })
+  .use(messageRehypePlugins)
+
+// The tree a message renders from, for working out what it shows without
+// rendering it
+export function renderMessageTree(content: string): Root {
+  return messageProcessor.runSync(messageProcessor.parse(content)) as Root
+}
@@ -0,0 +1,119 @@
+import type { Element, ElementContent, Root } from 'hast'
+import { escapeRegExp } from '@/lib/utils'
+
+// Mentions are stored in message content as `<@userId>` tokens (or
+// `<@channel>` / `<@here>` for the broadcast targets) so renaming a user never
+// breaks old messages. The parsed list is also saved on the message row in
+// its `mentions` column for querying.
+
+export type Mention =
+  | { type: 'user'; userId: string }
+  | { type: 'channel' }
+  | { type: 'here' }
+
+export interface PickedMention {
+  userId: string
+  label: string
+}
+
+export const SPECIAL_MENTIONS = [
+  { id: 'channel' as const, description: 'Notify everyone in this channel' },
+  { id: 'here' as const, description: 'Notify everyone online in this channel' }
+]
+
+const MENTION_TOKEN = /<@([^\s<>]+)>/g
+
+export const mentionToken = (target: string) => `<@${target}>`
+
+// Turn the `@Display Name` text picked from autocomplete (and typed
+// `@channel` / `@here`) into tokens before the message is saved
+export function encodeMentions(text: string, picked: PickedMention[]): string {
+  let encoded = text
+
+  // Longest labels first so "@Ann Lee" wins over "@Ann"
+  const byLength = [...picked].sort((a, b) => b.label.length - a.label.length)
+  for (const mention of byLength) {
+    const pattern = new RegExp(`@${escapeRegExp(mention.label)}(?![\\w-])`, 'g')
+    encoded = encoded.replace(pattern, mentionToken(mention.userId))
+  }
+
+  return encoded.replace(/(^|\s)@(channel|here)(?![\w-])/g, (_, prefix, target) => `${prefix}${mentionToken(target)}`)
+}
+
+export function extractMentions(content: string): Mention[] {
+  const mentions: Mention[] = []
+  const seen = new Set<string>()
+
+  for (const match of content.matchAll(MENTION_TOKEN)) {
+    const target = match[1]
+    if (seen.has(target)) continue
+    seen.add(target)
+
+    if (target === 'channel' || target === 'here') {
+      mentions.push({ type: target })
+    } else {
+      mentions.push({ type: 'user', userId: target })
+    }
+  }
+
+  return mentions
+}
+
+export const serializeMentions = (content: string) => JSON.stringify(extractMentions(content))
+
+export function isUserMentioned(content: string, userId: string): boolean {
+  return extractMentions(content).some(mention =>
+    mention.type !== 'user' || mention.userId === userId
+  )
+}
+
+// Replace tokens with readable names for plain-text contexts (AI prompts,
+// edit boxes, previews)
+export function mentionsToText(content: string, getName: (userId: string) => string): string {
+  return content.replace(MENTION_TOKEN, (_, target) =>
+    target === 'channel' || target === 'here' ? `@${target}` : `@${getName(target)}`
+  )
+}
+
+// Only targets that look like ids become pills
+const MENTION_TARGET = /^[\w-]+$/
+
+// Rehype plugin: split text nodes on mention tokens into `<span data-mention>`
+// elements, leaving code untouched. Runs after sanitizing, which strips
+// `data-mention` from raw HTML, so only real tokens become pills.
+export function rehypeMentions() {
+  const visit = (node: Root | Element) => {
+    node.children = node.children.flatMap((child): ElementContent[] => {
+      if (child.type === 'doctype') return []
+      if (child.type !== 'text') {
+        if (child.type === 'element' && child.tagName !== 'code' && child.tagName !== 'pre') visit(child)
+        return [child]
+      }
+
+      const parts: ElementContent[] = []
+      let lastIndex = 0
+      for (const match of child.value.matchAll(MENTION_TOKEN)) {
+        const index = match.index ?? 0
+        if (!MENTION_TARGET.test(match[1])) continue
+        if (index > lastIndex) {
+          parts.push({ type: 'text', value: child.value.slice(lastIndex, index) })
+        }
+        parts.push({
+          type: 'element',
+          tagName: 'span',
+          properties: { dataMention: match[1] },
+          children: [{ type: 'text', value: `@${match[1]}` }]
+        })
+        lastIndex = index + match[0].length
+      }
+
+      if (parts.length === 0) return [child]
+      if (lastIndex < child.value.length) {
+        parts.push({ type: 'text', value: child.value.slice(lastIndex) })
+      }
+      return parts
+    })
+  }
+
+  return (tree: Root) => visit(tree)
+}
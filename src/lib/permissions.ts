@@ -0,0 +1,82 @@
+// Workspace roles, most privileged first
+export const WORKSPACE_ROLES = ['owner', 'admin', 'member', 'guest'] as const
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number]
+
+export type Permission =
+  | 'channel.create'
+  | 'channel.archive'
+  | 'channel.addMembers'
+  | 'channel.removeMembers'
+  | 'channel.editTopic'
+  | 'message.deleteAny'
+  | 'message.pin'
+  | 'workspace.invite'
+  | 'workspace.manageMembers'
+  | 'workspace.settings'
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  guest: 'Guest'
+}
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, Permission[]> = {
+  owner: [
+    'channel.create',
+    'channel.archive',
+    'channel.addMembers',
+    'channel.removeMembers',
+    'channel.editTopic',
+    'message.deleteAny',
+    'message.pin',
+    'workspace.invite',
+    'workspace.manageMembers',
+    'workspace.settings'
+  ],
+  admin: [
+    'channel.create',
+    'channel.archive',
+    'channel.addMembers',
+    'channel.removeMembers',
+    'channel.editTopic',
+    'message.deleteAny',
+    'message.pin',
+    'workspace.invite',
+    'workspace.manageMembers',
+    'workspace.settings'
+  ],
+  member: ['channel.create', 'channel.addMembers', 'channel.editTopic', 'message.pin'],
+  guest: []
+}
+
+const isWorkspaceRole = (role: string | null | undefined): role is WorkspaceRole =>
+  WORKSPACE_ROLES.includes(role as WorkspaceRole)
+
+// Unknown or missing roles get no extra permissions
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isWorkspaceRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function getRoleLabel(role: string): string {
+  return isWorkspaceRole(role) ? ROLE_LABELS[role] : role
+}
+
+const roleRank = (role: string) => {
+  const index = WORKSPACE_ROLES.indexOf(role as WorkspaceRole)
+  return index === -1 ? WORKSPACE_ROLES.length : index
+}
+
+// Managers can only act on people at or below their own level, so admins
+// can't demote or remove owners
+export function canManageRole(actorRole: string | null | undefined, targetRole: string): boolean {
+  if (!isWorkspaceRole(actorRole) || !hasPermission(actorRole, 'workspace.manageMembers')) return false
+  return roleRank(actorRole) <= roleRank(targetRole)
+}
+
+// Roles the actor may hand out, either to an existing member or in an invitation
+export function getAssignableRoles(actorRole: string | null | undefined): WorkspaceRole[] {
+  if (!isWorkspaceRole(actorRole)) return []
+  return WORKSPACE_ROLES.filter(role => roleRank(role) >= roleRank(actorRole))
+}
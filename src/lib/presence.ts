@@ -0,0 +1,56 @@
+export type PresenceStatus = 'active' | 'away' | 'offline'
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  active: 'Active',
+  away: 'Away',
+  offline: 'Offline'
+}
+
+export interface CustomStatus {
+  emoji: string
+  text: string
+}
+
+interface StatusFields {
+  statusEmoji?: string
+  statusText?: string
+  statusExpiresAt?: string
+}
+
+// A user's custom status, or null when none is set or it has expired
+export function getCustomStatus(profile?: StatusFields): CustomStatus | null {
+  if (!profile || (!profile.statusEmoji && !profile.statusText)) return null
+  if (profile.statusExpiresAt && new Date(profile.statusExpiresAt).getTime() <= Date.now()) return null
+
+  return {
+    emoji: profile.statusEmoji || '💬',
+    text: profile.statusText || ''
+  }
+}
+
+export type StatusDuration = 'never' | '30m' | '1h' | '4h' | 'today'
+
+export const STATUS_DURATIONS: { value: StatusDuration; label: string }[] = [
+  { value: 'never', label: "Don't clear" },
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: 'today', label: 'Today' }
+]
+
+// When a status set now with the given duration should expire; null keeps it until cleared
+export function getStatusExpiry(duration: StatusDuration, now = new Date()): string | null {
+  const minutes = { '30m': 30, '1h': 60, '4h': 240 } as const
+
+  switch (duration) {
+    case 'never':
+      return null
+    case 'today': {
+      const endOfDay = new Date(now)
+      endOfDay.setHours(23, 59, 59, 999)
+      return endOfDay.toISOString()
+    }
+    default:
+      return new Date(now.getTime() + minutes[duration] * 60 * 1000).toISOString()
+  }
+}
@@ -0,0 +1,47 @@
+import { matchPath } from 'react-router-dom'
+
+export interface ChatLocation {
+  groupId: string | null
+  channelId: string | null
+  messageId: string | null
+  // A workspace-level page shown instead of a channel
+  view: 'drafts' | null
+}
+
+// Most specific first: the first pattern that matches wins
+const CHAT_ROUTES = [
+  '/w/:groupId/c/:channelId/m/:messageId',
+  '/w/:groupId/c/:channelId',
+  '/w/:groupId/drafts',
+  '/w/:groupId'
+]
+
+export const workspacePath = (groupId: string) => `/w/${encodeURIComponent(groupId)}`
+
+export const channelPath = (groupId: string, channelId: string) =>
+  `${workspacePath(groupId)}/c/${encodeURIComponent(channelId)}`
+
+export const draftsPath = (groupId: string) => `${workspacePath(groupId)}/drafts`
+
+export const messagePath = (groupId: string, channelId: string, messageId: string) =>
+  `${channelPath(groupId, channelId)}/m/${encodeURIComponent(messageId)}`
+
+// Absolute URL to a message, for sharing outside the app
+export const getMessageLink = (groupId: string, channelId: string, messageId: string) =>
+  `${window.location.origin}${messagePath(groupId, channelId, messageId)}`
+
+// The workspace, channel, message and view selected by a URL path; anything else selects nothing
+export function parseChatPath(pathname: string): ChatLocation {
+  for (const pattern of CHAT_ROUTES) {
+    const match = matchPath(pattern, pathname)
+    if (match) {
+      return {
+        groupId: match.params.groupId ?? null,
+        channelId: match.params.channelId ?? null,
+        messageId: match.params.messageId ?? null,
+        view: pattern.endsWith('/drafts') ? 'drafts' : null
+      }
+    }
+  }
+  return { groupId: null, channelId: null, messageId: null, view: null }
+}
@@ -0,0 +1,115 @@
+import type { Element, ElementContent, Properties, Root, RootContent } from 'hast'
+import type { Options } from 'react-markdown'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeRaw from 'rehype-raw'
+
+// Elements that may appear in rendered markdown: what markdown and GFM
+// produce, plus the inline HTML people actually write in messages
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'del', 'details', 'em', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre',
+  's', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'tr', 'u', 'ul'
+])
+
+// Removed together with their content; anything else not on the allowlist
+// is unwrapped so its text still shows
+const DROPPED_TAGS = new Set([
+  'button', 'embed', 'form', 'frame', 'frameset', 'iframe', 'link', 'math', 'meta', 'noscript',
+  'object', 'script', 'select', 'style', 'svg', 'template', 'textarea', 'title'
+])
+
+// Attributes per tag, as hast property names; `*` applies to every tag
+const ALLOWED_PROPERTIES: Record<string, string[]> = {
+  '*': ['title'],
+  a: ['href'],
+  code: ['className'],
+  details: ['open'],
+  img: ['src', 'alt', 'width', 'height'],
+  input: ['type', 'checked', 'disabled'],
+  li: ['className'],
+  ol: ['start', 'className'],
+  td: ['align'],
+  th: ['align'],
+  ul: ['className']
+}
+
+// Class names markdown itself emits, for code languages and task lists
+const ALLOWED_CLASS = /^(language-[\w+-]+|contains-task-list|task-list-item)$/
+
+const URL_PROPERTIES = new Set(['href', 'src'])
+const SAFE_PROTOCOLS = new Set(['http', 'https', 'mailto', 'tel'])
+
+// Control characters and spaces, which browsers ignore inside a URL scheme
+const isIgnoredInScheme = (char: string) => {
+  const code = char.charCodeAt(0)
+  return code <= 0x20 || (code >= 0x7f && code <= 0x9f)
+}
+
+// Relative links and the protocols above are kept; `javascript:`, `data:`
+// and anything else is dropped. Characters browsers ignore are stripped
+// before checking.
+export function isSafeUrl(url: string): boolean {
+  const normalized = Array.from(url).filter(char => !isIgnoredInScheme(char)).join('').toLowerCase()
+  const protocol = /^([a-z][a-z0-9+.-]*):/.exec(normalized)
+  return !protocol || SAFE_PROTOCOLS.has(protocol[1])
+}
+
+const sanitizeProperties = (tagName: string, properties: Properties = {}): Properties | null => {
+  const allowed = new Set([...ALLOWED_PROPERTIES['*'], ...(ALLOWED_PROPERTIES[tagName] ?? [])])
+  const result: Properties = {}
+
+  for (const [name, value] of Object.entries(properties)) {
+    if (!allowed.has(name)) continue
+
+    if (URL_PROPERTIES.has(name)) {
+      if (typeof value === 'string' && isSafeUrl(value)) result[name] = value
+    } else if (name === 'className') {
+      const classes = (Array.isArray(value) ? value : [value]).map(String).filter(c => ALLOWED_CLASS.test(c))
+      if (classes.length > 0) result[name] = classes
+    } else if (name === 'type') {
+      // Only task list checkboxes
+      if (value === 'checkbox') result[name] = value
+    } else {
+      result[name] = value
+    }
+  }
+
+  // Inputs only ever render as read-only task list checkboxes
+  if (tagName === 'input') {
+    if (result.type !== 'checkbox') return null
+    result.disabled = true
+  }
+
+  return result
+}
+
+const sanitizeChildren = (children: RootContent[]): ElementContent[] => children.flatMap((child): ElementContent[] => {
+  if (child.type === 'text') return [child]
+  if (child.type !== 'element') return []
+
+  const tagName = child.tagName.toLowerCase()
+  if (DROPPED_TAGS.has(tagName)) return []
+
+  const contents = sanitizeChildren(child.children)
+  if (!ALLOWED_TAGS.has(tagName)) return contents
+
+  const properties = sanitizeProperties(tagName, child.properties)
+  if (!properties) return []
+
+  const element: Element = { ...child, tagName, properties, children: contents }
+  return [element]
+})
+
+// Rehype plugin: reduce the tree to allowlisted elements and attributes.
+// Runs after rehype-raw, so HTML typed into a message goes through it too.
+export function rehypeSanitize() {
+  return (tree: Root) => {
+    tree.children = sanitizeChildren(tree.children)
+  }
+}
+
+// For every ReactMarkdown that renders user or AI content. Highlighting runs
+// last so the markup it adds isn't stripped; plugins that mark up more, like
+// mentions, go after it for the same reason.
+export const safeRehypePlugins: NonNullable<Options['rehypePlugins']> = [rehypeRaw, rehypeSanitize, rehypeHighlight]
@@ -0,0 +1,272 @@
+import type { Element, ElementContent, Root } from 'hast'
+import { startOfDay, addDays, parseISO, isValid } from 'date-fns'
+import { renderMessageTree } from '@/lib/markdown'
+import { escapeRegExp } from '@/lib/utils'
+
+// Parsed form of a search box query such as
+// `deploy "release notes" from:@ann in:#ops after:2024-05-01 has:link`
+export interface SearchQuery {
+  terms: string[]
+  phrases: string[]
+  from: string[]
+  in: string[]
+  before?: Date
+  after?: Date
+  has: ('link' | 'file')[]
+}
+
+const TOKEN_PATTERN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+/i
+
+// Dates are read in the user's local time zone
+const parseDate = (value: string) => {
+  const date = parseISO(value)
+  return isValid(date) ? startOfDay(date) : undefined
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], phrases: [], from: [], in: [], has: [] }
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, quotedKey, quotedValue, key, value, phrase, word] = match
+    const filterKey = (quotedKey || key)?.toLowerCase()
+    const filterValue = quotedValue ?? value
+
+    if (filterKey === 'from' && filterValue) {
+      query.from.push(filterValue.replace(/^@/, ''))
+    } else if (filterKey === 'in' && filterValue) {
+      query.in.push(filterValue.replace(/^#/, ''))
+    } else if (filterKey === 'before' && filterValue) {
+      query.before = parseDate(filterValue)
+    } else if (filterKey === 'after' && filterValue) {
+      // "after" excludes the day itself
+      const date = parseDate(filterValue)
+      query.after = date && addDays(date, 1)
+    } else if (filterKey === 'has' && (filterValue === 'link' || filterValue === 'file')) {
+      query.has.push(filterValue)
+    } else if (phrase !== undefined) {
+      if (phrase.trim()) query.phrases.push(phrase.trim().toLowerCase())
+    } else {
+      query.terms.push((word ?? match[0]).toLowerCase())
+    }
+  }
+
+  return query
+}
+
+export const hasSearchCriteria = (query: SearchQuery) =>
+  query.terms.length > 0 ||
+  query.phrases.length > 0 ||
+  query.from.length > 0 ||
+  query.in.length > 0 ||
+  query.has.length > 0 ||
+  Boolean(query.before || query.after)
+
+// Words and phrases to highlight in results
+export const getSearchNeedles = (query: SearchQuery) => [...query.phrases, ...query.terms]
+
+interface SearchableMessage {
+  content: string
+  messageType: string
+  createdAt: string
+}
+
+// Conditions the database query can't express on its own. The query filters
+// on one date bound at most, so both are checked here.
+export function matchesSearchQuery(message: SearchableMessage, query: SearchQuery): boolean {
+  const content = message.content.toLowerCase()
+  const createdAt = new Date(message.createdAt)
+
+  if (message.messageType === 'system') return false
+  if (query.before && createdAt >= query.before) return false
+  if (query.after && createdAt < query.after) return false
+  if (!getSearchNeedles(query).every(needle => content.includes(needle))) return false
+  if (query.has.includes('link') && !LINK_PATTERN.test(message.content)) return false
+  if (query.has.includes('file') && !['image', 'file'].includes(message.messageType)) return false
+
+  return true
+}
+
+const countOccurrences = (text: string, needle: string) => {
+  let count = 0
+  let index = text.indexOf(needle)
+  while (index !== -1) {
+    count += 1
+    index = text.indexOf(needle, index + needle.length)
+  }
+  return count
+}
+
+// Higher is better: phrase hits beat loose terms, whole words beat partial
+// matches, and recent messages win ties
+export function scoreSearchResult(message: SearchableMessage, query: SearchQuery, now = Date.now()): number {
+  const content = message.content.toLowerCase()
+  let score = 0
+
+  for (const phrase of query.phrases) {
+    score += countOccurrences(content, phrase) * 5
+  }
+
+  for (const term of query.terms) {
+    score += Math.min(countOccurrences(content, term), 3)
+    if (new RegExp(`\\b${escapeRegExp(term)}\\b`).test(content)) score += 2
+  }
+
+  const ageInDays = (now - new Date(message.createdAt).getTime()) / (24 * 60 * 60 * 1000)
+  return score + 1 / (1 + Math.max(ageInDays, 0) / 30)
+}
+
+const SNIPPET_CONTEXT = 60
+
+// A short window of the content around the first match
+export function buildSnippet(content: string, needles: string[]): string {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const lower = text.toLowerCase()
+
+  const firstMatch = needles
+    .map(needle => lower.indexOf(needle))
+    .filter(index => index !== -1)
+    .sort((a, b) => a - b)[0]
+
+  if (firstMatch === undefined || text.length <= SNIPPET_CONTEXT * 2) {
+    return text.length > SNIPPET_CONTEXT * 2 ? `${text.slice(0, SNIPPET_CONTEXT * 2)}…` : text
+  }
+
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT)
+  const end = Math.min(text.length, firstMatch + SNIPPET_CONTEXT)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`
+}
+
+// Split text into plain and matching segments so callers can highlight
+// matches without building HTML strings
+export function splitByMatches(text: string, needles: string[]): { text: string; isMatch: boolean }[] {
+  const usable = needles.filter(Boolean)
+  if (usable.length === 0) return [{ text, isMatch: false }]
+
+  const escaped = usable
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi')
+
+  // With a capturing group, split() puts the matches at odd indexes
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, isMatch: index % 2 === 1 }))
+    .filter(segment => segment.text !== '')
+}
+
+// Every needle appears in the content, ignoring case
+export function containsAllNeedles(content: string, needles: string[]): boolean {
+  const lower = content.toLowerCase()
+  return needles.every(needle => lower.includes(needle.toLowerCase()))
+}
+
+// One occurrence of a needle: the message it's in and its position among
+// that message's highlights
+export interface SearchMatch {
+  messageId: string
+  index: number
+}
+
+interface MatchableMessage {
+  id: string
+  content: string
+  messageType: string
+}
+
+// Mentions render as pills built from their target, not their text, so
+// search skips them
+const isMentionPill = (node: Root | Element) =>
+  node.type === 'element' && node.properties.dataMention !== undefined
+
+// The text nodes a rendered tree shows, in document order, which is exactly
+// where highlights go
+const collectSearchableText = (node: Root | Element, texts: string[] = []): string[] => {
+  if (isMentionPill(node)) return texts
+  for (const child of node.children) {
+    if (child.type === 'text') texts.push(child.value)
+    else if (child.type === 'element') collectSearchableText(child, texts)
+  }
+  return texts
+}
+
+// Rendering is the slow part, and the same messages are searched again on
+// every keystroke
+const SEARCHABLE_TEXT_CACHE_SIZE = 1000
+const searchableTextCache = new Map<string, string[]>()
+
+const getSearchableText = (content: string) => {
+  let texts = searchableTextCache.get(content)
+  if (!texts) {
+    if (searchableTextCache.size >= SEARCHABLE_TEXT_CACHE_SIZE) searchableTextCache.clear()
+    texts = collectSearchableText(renderMessageTree(content))
+    searchableTextCache.set(content, texts)
+  }
+  return texts
+}
+
+const countMatches = (text: string, needles: string[]) =>
+  splitByMatches(text, needles).filter(segment => segment.isMatch).length
+
+// Whether every needle shows up in the message as rendered; link targets,
+// HTML tags and mention tokens don't count
+export function matchesRenderedText(content: string, needles: string[]): boolean {
+  if (!containsAllNeedles(content, needles)) return false
+  const texts = getSearchableText(content).map(text => text.toLowerCase())
+  return needles.every(needle => texts.some(text => text.includes(needle.toLowerCase())))
+}
+
+// All occurrences in timeline order, for stepping through them. Counted in
+// the rendered text, so they line up with what rehypeSearchMatches highlights.
+export function findSearchMatches(messages: MatchableMessage[], needles: string[]): SearchMatch[] {
+  if (needles.length === 0) return []
+
+  return messages.flatMap((message) => {
+    if (message.messageType === 'system' || !matchesRenderedText(message.content, needles)) return []
+
+    const count = getSearchableText(message.content).reduce((sum, text) => sum + countMatches(text, needles), 0)
+    return Array.from({ length: count }, (_, index) => ({ messageId: message.id, index }))
+  })
+}
+
+const MATCH_CLASS = ['bg-yellow-200', 'dark:bg-yellow-800', 'rounded-sm']
+const ACTIVE_MATCH_CLASS = ['bg-orange-300', 'dark:bg-orange-600', 'rounded-sm']
+
+// Rehype plugin: wrap matches inside text nodes in `<mark>`, so highlighting
+// never touches markdown syntax, link targets or HTML. The match at
+// `activeIndex`, counted in document order, is marked as the current one.
+export function rehypeSearchMatches({ needles, activeIndex = null }: { needles: string[]; activeIndex?: number | null }) {
+  return (tree: Root) => {
+    let count = 0
+
+    const visit = (node: Root | Element) => {
+      if (isMentionPill(node)) return
+
+      node.children = node.children.flatMap((child): ElementContent[] => {
+        if (child.type === 'doctype') return []
+        if (child.type !== 'text') {
+          if (child.type === 'element') visit(child)
+          return [child]
+        }
+
+        return splitByMatches(child.value, needles).map((segment): ElementContent => {
+          if (!segment.isMatch) return { type: 'text', value: segment.text }
+
+          const isActive = count === activeIndex
+          count += 1
+          return {
+            type: 'element',
+            tagName: 'mark',
+            properties: {
+              className: isActive ? ACTIVE_MATCH_CLASS : MATCH_CLASS,
+              dataSearchMatch: isActive ? 'active' : ''
+            },
+            children: [{ type: 'text', value: segment.text }]
+          }
+        })
+      })
+    }
+
+    visit(tree)
+  }
+}
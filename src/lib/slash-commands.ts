@@ -0,0 +1,122 @@
+import type { User } from '@/blink/types'
+import { createStore } from '@/lib/store'
+
+// A message starting with `/name` runs a command instead of being sent as
+// typed. Commands live in the registry below so any feature can add its own;
+// the built-in ones are registered at startup (see builtin-slash-commands).
+
+// The conversation a command runs in, supplied by whatever hosts the composer
+export interface SlashCommandHost {
+  groupId: string
+  channelId: string
+  threadId: string | null
+  // Actions this conversation supports; commands that need a missing one aren't offered
+  setTopic?: (topic: string) => Promise<void>
+  addMembers?: (userIds: string[]) => Promise<void>
+  leave?: () => Promise<void>
+}
+
+export interface SlashCommandContext extends SlashCommandHost {
+  user: User
+  // Everything typed after the command name, with picked mentions encoded as tokens
+  args: string
+}
+
+// What to do with the composer once a command has run; nothing clears it
+export type SlashCommandResult =
+  // Send this in place of what was typed
+  | { type: 'send'; content: string }
+  // Put this in the composer to review before sending, with the cursor at
+  // the given offset or the end
+  | { type: 'compose'; content: string; cursor?: number }
+  // Clear the composer and show this to the user
+  | { type: 'confirm'; message: string }
+
+export interface SlashCommand {
+  // Lowercase, without the slash
+  name: string
+  description: string
+  // Shown after the name while typing, e.g. "@person"
+  argsHint?: string
+  isAvailable?: (host: SlashCommandHost) => boolean
+  run: (context: SlashCommandContext) => SlashCommandResult | void | Promise<SlashCommandResult | void>
+}
+
+// A command that can't run with what was typed; the message is shown to the
+// user and the composer keeps their text
+export class SlashCommandError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SlashCommandError'
+  }
+}
+
+// Every command the composer knows, by name
+export const slashCommands = createStore<ReadonlyMap<string, SlashCommand>>(new Map())
+
+export const getSlashCommand = (name: string) => slashCommands.get().get(name)
+
+// Add a command, replacing any with the same name. Returns a function that
+// removes it again.
+export function registerSlashCommand(command: SlashCommand): () => void {
+  slashCommands.set(new Map(slashCommands.get()).set(command.name, command))
+
+  return () => {
+    if (getSlashCommand(command.name) !== command) return
+    const next = new Map(slashCommands.get())
+    next.delete(command.name)
+    slashCommands.set(next)
+  }
+}
+
+const COMMAND_PATTERN = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i
+
+// `/name args` → { name, args }; anything else, including `//text`, isn't a command
+export function parseSlashCommand(text: string): { name: string; args: string } | null {
+  const match = COMMAND_PATTERN.exec(text.trim())
+  if (!match) return null
+  return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() }
+}
+
+// The partial command name while it's still being typed at the start of the message
+export function getCommandQuery(text: string, cursor: number): string | null {
+  const match = /^\/([\w-]*)$/.exec(text.slice(0, cursor))
+  return match ? match[1].toLowerCase() : null
+}
+
+// Split `"Lunch?" "Tacos" Pizza` into quoted or bare words; curly quotes count too
+export function splitQuotedArgs(args: string): string[] {
+  const parts: string[] = []
+  for (const match of args.matchAll(/["“”]([^"“”]*)["“”]|(\S+)/g)) {
+    const part = (match[1] ?? match[2]).trim()
+    if (part) parts.push(part)
+  }
+  return parts
+}
+
+const DELAY_UNITS: Record<string, number> = {
+  m: 60_000,
+  min: 60_000,
+  mins: 60_000,
+  minute: 60_000,
+  minutes: 60_000,
+  h: 3_600_000,
+  hr: 3_600_000,
+  hrs: 3_600_000,
+  hour: 3_600_000,
+  hours: 3_600_000,
+  d: 86_400_000,
+  day: 86_400_000,
+  days: 86_400_000
+}
+
+// Read a leading "in 10 minutes", "2h" or "tomorrow" off the arguments
+export function parseReminderDelay(args: string): { delay: number; rest: string } | null {
+  const tomorrow = /^tomorrow\b\s*/i.exec(args)
+  if (tomorrow) return { delay: DELAY_UNITS.day, rest: args.slice(tomorrow[0].length) }
+
+  const match = /^(?:in\s+)?(\d+)\s*([a-z]+)\b\s*/i.exec(args)
+  const unit = match && DELAY_UNITS[match[2].toLowerCase()]
+  if (!match || !unit || Number(match[1]) <= 0) return null
+  return { delay: Number(match[1]) * unit, rest: args.slice(match[0].length) }
+}
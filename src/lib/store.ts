@@ -0,0 +1,28 @@
+// A module-level value that components read with useSyncExternalStore.
+// `set` replaces the value rather than mutating it, so the value itself is the
+// snapshot: React compares it by identity to know when to re-render, and memos
+// can list it as a dependency.
+export interface Store<T> {
+  get: () => T
+  set: (next: T) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+export function createStore<T>(initial: T): Store<T> {
+  let value = initial
+  const listeners = new Set<() => void>()
+
+  return {
+    get: () => value,
+    set: (next) => {
+      value = next
+      listeners.forEach(listener => listener())
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Set to "local" to use the in-browser BroadcastChannel transport instead of Blink realtime */
+  readonly VITE_REALTIME_TRANSPORT?: string
+  /** Set to "memory" to keep all data in an in-memory store instead of the Blink database */
+  readonly VITE_DATA_BACKEND?: string
+}